@@ -0,0 +1,66 @@
+import { getRedisClient } from './redis.js';
+import { AUDIT_CONFIG } from './config.js';
+import { AuditEntry, AuditQuery, AuditSink, matchesAuditQuery } from '../shared/audit-log.js';
+
+// Entries read per XREVRANGE call while filtering a query
+const QUERY_PAGE_SIZE = 500;
+
+/**
+ * RedisAuditSink appends entries to a capped Redis stream per user and project
+ *
+ * Stream IDs are millisecond timestamps, so time filters map directly onto XREVRANGE bounds.
+ */
+export class RedisAuditSink implements AuditSink {
+  private streamKey: string;
+
+  constructor(userId: string, projectId: string) {
+    this.streamKey = `${AUDIT_CONFIG.keyPrefix}${userId}:${projectId}`;
+  }
+
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      const redis = getRedisClient();
+      await redis.xadd(
+        this.streamKey,
+        'MAXLEN',
+        '~',
+        AUDIT_CONFIG.maxEntries,
+        '*',
+        'entry',
+        JSON.stringify(entry)
+      );
+    } catch (error) {
+      console.error('[Audit] Failed to write audit entry:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const redis = getRedisClient();
+    const results: AuditEntry[] = [];
+    const start = query.since ? String(query.since.getTime()) : '-';
+    let end = query.until ? String(query.until.getTime()) : '+';
+
+    while (results.length < query.limit) {
+      const page = await redis.xrevrange(this.streamKey, end, start, 'COUNT', QUERY_PAGE_SIZE);
+
+      for (const [, fields] of page) {
+        const raw = fields[fields.indexOf('entry') + 1];
+        try {
+          const entry = JSON.parse(raw) as AuditEntry;
+          if (matchesAuditQuery(entry, query)) {
+            results.push(entry);
+            if (results.length >= query.limit) break;
+          }
+        } catch {
+          // Skip malformed entries
+        }
+      }
+
+      if (page.length < QUERY_PAGE_SIZE) break;
+      // Continue below the oldest ID of this page (exclusive range)
+      end = `(${page[page.length - 1][0]}`;
+    }
+
+    return results;
+  }
+}
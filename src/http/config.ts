@@ -118,6 +118,21 @@ export function isAnalyticsConfigured(): boolean {
   return !!ANALYTICS_CONFIG.mixpanelToken && process.env.ENABLE_ANALYTICS !== 'false';
 }
 
+// ============================================================================
+// Audit Log Configuration
+// ============================================================================
+
+export const AUDIT_CONFIG = {
+  /** Record tool invocations to a Redis stream per user and project */
+  enabled: process.env.AUDIT_LOG_ENABLED === 'true',
+
+  /** Redis key prefix for audit streams */
+  keyPrefix: 'mcp:audit:',
+
+  /** Approximate number of entries kept per stream */
+  maxEntries: parseInt(process.env.AUDIT_LOG_MAX_ENTRIES || '10000'),
+} as const;
+
 // ============================================================================
 // MCP Endpoint Paths
 // ============================================================================
@@ -71,6 +71,7 @@ interface TokenBinding {
   organizationId: string;
   accessHost: string;
   apiKey: string;
+  clientId?: string;  // MCP client that completed the OAuth flow
   createdAt: number;
   lastUsedAt: number;
 }
@@ -193,6 +194,7 @@ export class OAuthManager {
       organizationId: projectAccess.organizationId,
       accessHost: projectAccess.accessHost,
       apiKey: projectAccess.apiKey,
+      clientId: authState.clientId,
       createdAt: Date.now(),
       lastUsedAt: Date.now(),
     };
@@ -346,6 +348,7 @@ export class OAuthManager {
     userId: string;
     organizationId: string;
     oauthTokenHash: string;
+    clientId?: string;
   } | null> {
     // First, try using the token directly as a tokenHash
     // This handles the case where MCP clients send the tokenHash from /oauth/token
@@ -374,6 +377,7 @@ export class OAuthManager {
       userId: binding.userId,
       organizationId: binding.organizationId,
       oauthTokenHash: actualTokenHash,
+      clientId: binding.clientId,
     };
   }
 
@@ -24,6 +24,12 @@ import {
 } from './config.js';
 import { renderProjectSelectionPage } from './templates/project-selection.js';
 import { getAnalyticsService, extractClientInfo } from './analytics.js';
+import { ToolFilter, findUnknownToolPatterns, parseToolPatterns } from '../shared/tool-filter.js';
+import { insforgeToolDefinitions } from '../shared/tool-definitions/index.js';
+import { installConsoleRedaction } from '../shared/redaction.js';
+
+// Mask API keys, JWTs and secret env values in everything logged below
+installConsoleRedaction();
 
 // ============================================================================
 // Express App Setup
@@ -97,6 +103,7 @@ async function resolveProjectFromToken(token: string): Promise<{
   userId: string;
   organizationId: string;
   oauthTokenHash: string;
+  clientId?: string;
 } | null> {
   const oauthManager = getOAuthManager();
   return oauthManager.resolveProjectFromToken(token);
@@ -123,6 +130,50 @@ function extractLegacyHeaders(req: Request): { apiKey?: string; apiBaseUrl?: str
   };
 }
 
+/**
+ * Normalize tool patterns from client metadata (array or comma-separated string)
+ */
+function normalizeToolPatterns(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return parseToolPatterns(value.filter((pattern) => typeof pattern === 'string').join(','));
+  }
+  return typeof value === 'string' ? parseToolPatterns(value) : undefined;
+}
+
+/**
+ * Load the tool allowlist/denylist configured for an OAuth client at registration
+ */
+async function getClientToolFilter(clientId?: string): Promise<ToolFilter | undefined> {
+  if (!clientId) {
+    return undefined;
+  }
+
+  const redis = getRedisClient();
+  const clientDataStr = await redis.get(`mcp:oauth:client:${clientId}`);
+  if (!clientDataStr) {
+    return undefined;
+  }
+
+  try {
+    const clientData = JSON.parse(clientDataStr);
+    if (!clientData.tools && !clientData.exclude_tools) {
+      return undefined;
+    }
+    return { include: clientData.tools, exclude: clientData.exclude_tools };
+  } catch (parseError) {
+    console.error(`[OAuth] Failed to parse client data for client_id ${clientId}:`, parseError);
+    return undefined;
+  }
+}
+
+/**
+ * Check whether the client requested a read-only session (X-Read-Only: true)
+ */
+function extractReadOnly(req: Request): boolean {
+  const value = (req.headers['x-read-only'] as string | undefined)?.toLowerCase();
+  return value === 'true' || value === '1';
+}
+
 // ============================================================================
 // Health & Discovery Endpoints
 // ============================================================================
@@ -194,6 +245,17 @@ app.post(OAUTH_ENDPOINTS.register, async (req: Request, res: Response) => {
     scope,
   } = req.body;
 
+  // Optional tool allowlist/denylist applied to every session created by this client
+  const tools = normalizeToolPatterns(req.body.tools);
+  const excludeTools = normalizeToolPatterns(req.body.exclude_tools);
+  const unknownPatterns = findUnknownToolPatterns({ include: tools, exclude: excludeTools }, insforgeToolDefinitions);
+  if (unknownPatterns.length > 0) {
+    return res.status(400).json({
+      error: 'invalid_client_metadata',
+      error_description: `Unknown tool or group in tools/exclude_tools: ${unknownPatterns.join(', ')}`,
+    });
+  }
+
   if (!redirect_uris || !Array.isArray(redirect_uris) || redirect_uris.length === 0) {
     return res.status(400).json({
       error: 'invalid_client_metadata',
@@ -212,6 +274,8 @@ app.post(OAUTH_ENDPOINTS.register, async (req: Request, res: Response) => {
     response_types: response_types || ['code'],
     token_endpoint_auth_method: token_endpoint_auth_method || 'none',
     scope: scope || 'mcp:read mcp:write',
+    tools,
+    exclude_tools: excludeTools,
     created_at: Date.now(),
   };
 
@@ -231,6 +295,8 @@ app.post(OAUTH_ENDPOINTS.register, async (req: Request, res: Response) => {
     response_types: clientData.response_types,
     token_endpoint_auth_method: clientData.token_endpoint_auth_method,
     scope: clientData.scope,
+    tools: clientData.tools,
+    exclude_tools: clientData.exclude_tools,
   });
 });
 
@@ -817,7 +883,11 @@ app.post(STREAMABLE_HTTP_ENDPOINTS.mcp, async (req: Request, res: Response) => {
     });
 
     try {
-      await sessionManager.createSession(newSessionId, projectInfo, transport);
+      await sessionManager.createSession(newSessionId, {
+        ...projectInfo,
+        readOnly: extractReadOnly(req),
+        toolFilter: await getClientToolFilter(projectInfo.clientId),
+      }, transport);
       console.log('[Streamable HTTP] New session created:', newSessionId);
 
       const clientInfo = extractClientInfo(req.body);
@@ -1001,6 +1071,9 @@ app.get(SSE_ENDPOINTS.sse, async (req: Request, res: Response) => {
       userId: validProjectInfo.userId,
       organizationId: validProjectInfo.organizationId,
       oauthTokenHash: validProjectInfo.oauthTokenHash,
+      readOnly: extractReadOnly(req),
+      clientId: validProjectInfo.clientId,
+      toolFilter: await getClientToolFilter(validProjectInfo.clientId),
     }, transport);
 
     console.log(`[SSE] MCP server connected for session: ${transport.sessionId}`);
@@ -3,6 +3,10 @@ import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import { getRedisClient } from './redis.js';
 import { registerInsforgeTools } from '../shared/tools.js';
+import { ToolFilter } from '../shared/tool-filter.js';
+import { AuditConfig } from '../shared/audit-log.js';
+import { RedisAuditSink } from './audit-stream.js';
+import { AUDIT_CONFIG } from './config.js';
 
 /**
  * Session data stored in Redis
@@ -23,6 +27,13 @@ export interface SessionData {
   // OAuth token hash for validation
   oauthTokenHash: string;
 
+  // Register only non-mutating tools for this session
+  readOnly?: boolean;
+
+  // Tool allowlist/denylist from the OAuth client registration
+  clientId?: string;
+  toolFilter?: ToolFilter;
+
   // Metadata
   createdAt: number;
   lastAccessedAt: number;
@@ -36,6 +47,8 @@ interface RuntimeSession {
   server: McpServer;
   transport: StreamableHTTPServerTransport | SSEServerTransport;
   transportType: 'streamable' | 'sse';
+  // Stops background work and flushes buffered usage events
+  closeTools: () => Promise<void>;
 }
 
 // Redis key prefix
@@ -44,6 +57,21 @@ const SESSION_KEY_PREFIX = 'mcp:session:';
 // Session TTL in seconds (24 hours)
 const SESSION_TTL = 24 * 60 * 60;
 
+/**
+ * Audit sink for a session, when the audit log is enabled
+ * Entries are streamed per user and project so they survive session restores
+ */
+function auditConfigFor(sessionData: Pick<SessionData, 'userId' | 'projectId'>): AuditConfig | undefined {
+  if (!AUDIT_CONFIG.enabled) {
+    return undefined;
+  }
+
+  return {
+    sink: new RedisAuditSink(sessionData.userId, sessionData.projectId),
+    project: sessionData.projectId,
+  };
+}
+
 /**
  * SessionManager handles MCP session lifecycle with Redis persistence
  *
@@ -78,6 +106,9 @@ export class SessionManager {
     const toolsConfig = await registerInsforgeTools(server, {
       apiKey: sessionData.apiKey,
       apiBaseUrl: sessionData.apiBaseUrl,
+      readOnly: sessionData.readOnly,
+      toolFilter: sessionData.toolFilter,
+      audit: auditConfigFor(sessionData),
     });
 
     // Connect server to transport BEFORE persisting to Redis
@@ -100,7 +131,12 @@ export class SessionManager {
     );
 
     // Store runtime instances in memory
-    this.runtimeSessions.set(sessionId, { server, transport, transportType: 'streamable' });
+    this.runtimeSessions.set(sessionId, {
+      server,
+      transport,
+      transportType: 'streamable',
+      closeTools: toolsConfig.close,
+    });
 
     console.log(`[SessionManager] Session created: ${sessionId}`);
     return server;
@@ -191,15 +227,23 @@ export class SessionManager {
       version: '1.0.0',
     });
 
-    await registerInsforgeTools(server, {
+    const toolsConfig = await registerInsforgeTools(server, {
       apiKey: sessionData.apiKey,
       apiBaseUrl: sessionData.apiBaseUrl,
+      readOnly: sessionData.readOnly,
+      toolFilter: sessionData.toolFilter,
+      audit: auditConfigFor(sessionData),
     });
 
     await server.connect(transport);
 
     // Store runtime instances in memory
-    this.runtimeSessions.set(sessionId, { server, transport, transportType: 'streamable' });
+    this.runtimeSessions.set(sessionId, {
+      server,
+      transport,
+      transportType: 'streamable',
+      closeTools: toolsConfig.close,
+    });
 
     // Update last accessed time
     await this.touchSession(sessionId);
@@ -231,6 +275,9 @@ export class SessionManager {
     const toolsConfig = await registerInsforgeTools(server, {
       apiKey: sessionData.apiKey,
       apiBaseUrl: sessionData.apiBaseUrl,
+      readOnly: sessionData.readOnly,
+      toolFilter: sessionData.toolFilter,
+      audit: auditConfigFor(sessionData),
     });
 
     // Connect server to SSE transport BEFORE persisting to Redis
@@ -254,7 +301,12 @@ export class SessionManager {
     );
 
     // Store runtime instances in memory
-    this.runtimeSessions.set(sessionId, { server, transport, transportType: 'sse' });
+    this.runtimeSessions.set(sessionId, {
+      server,
+      transport,
+      transportType: 'sse',
+      closeTools: toolsConfig.close,
+    });
 
     console.log(`[SessionManager] SSE session created: ${sessionId}`);
     return server;
@@ -289,6 +341,7 @@ export class SessionManager {
       try {
         await runtime.server.close();
         await runtime.transport.close();
+        await runtime.closeTools();
       } catch (error) {
         console.error(`[SessionManager] Error closing session ${sessionId}:`, error);
       }
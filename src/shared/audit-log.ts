@@ -0,0 +1,175 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getSecretRedactor } from './redaction.js';
+
+/**
+ * A single tool invocation recorded in the audit log
+ */
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  durationMs: number;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  project: string;
+}
+
+/**
+ * Filters for reading the audit log back, newest entries first
+ */
+export interface AuditQuery {
+  since?: Date;
+  until?: Date;
+  tool?: string;
+  success?: boolean;
+  limit: number;
+}
+
+/**
+ * Destination for audit entries
+ * Implementations must not throw from record(); audit failures never fail a tool call
+ */
+export interface AuditSink {
+  record(entry: AuditEntry): Promise<void>;
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+/**
+ * Audit settings passed to registerInsforgeTools
+ * - project: Label stored with every entry (project ID or API base URL)
+ */
+export interface AuditConfig {
+  sink: AuditSink;
+  project: string;
+}
+
+// Argument names whose values are never written to the audit log
+const SENSITIVE_KEY_PATTERN = /(api_?key|token|secret|password|authorization|credential)/i;
+
+// Long values (file contents, large SQL batches) are truncated in the log
+const MAX_STRING_LENGTH = 4096;
+
+/**
+ * Redact secrets from tool arguments before they are logged
+ * Values under sensitive keys, deployment environment variable values and keys or tokens
+ * embedded in other strings (e.g. SQL) are masked; flags such as revealSecrets are kept
+ */
+export function redactArguments(args: Record<string, unknown>): Record<string, unknown> {
+  const redact = (value: unknown, key?: string): unknown => {
+    if (key && SENSITIVE_KEY_PATTERN.test(key) && typeof value !== 'boolean') {
+      return '[REDACTED]';
+    }
+    if (typeof value === 'string') {
+      const redacted = getSecretRedactor().redact(value);
+      return redacted.length > MAX_STRING_LENGTH ? `${redacted.slice(0, MAX_STRING_LENGTH)}… [truncated]` : redacted;
+    }
+    if (Array.isArray(value)) {
+      return key === 'envVars'
+        ? value.map((envVar) => ({ ...envVar, value: '[REDACTED]' }))
+        : value.map((item) => redact(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+    }
+    return value;
+  };
+
+  return redact(args) as Record<string, unknown>;
+}
+
+/**
+ * Check whether an entry matches the time, tool and outcome filters of a query
+ */
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  if (query.since && time < query.since.getTime()) return false;
+  if (query.until && time > query.until.getTime()) return false;
+  if (query.tool && entry.tool !== query.tool) return false;
+  if (query.success !== undefined && entry.success !== query.success) return false;
+  return true;
+}
+
+/**
+ * FileAuditSink appends entries to a JSONL file, rotating it by size
+ *
+ * Rotation keeps `maxFiles` older files next to the active one (audit.jsonl.1, audit.jsonl.2, ...).
+ */
+export class FileAuditSink implements AuditSink {
+  private filePath: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, maxBytes = 10 * 1024 * 1024, maxFiles = 5) {
+    this.filePath = filePath;
+    this.maxBytes = maxBytes;
+    this.maxFiles = maxFiles;
+  }
+
+  record(entry: AuditEntry): Promise<void> {
+    // Serialize writes so rotation never interleaves with an append
+    this.writeQueue = this.writeQueue
+      .then(() => this.append(`${JSON.stringify(entry)}\n`))
+      .catch((error) => {
+        console.error('Failed to write audit log:', error instanceof Error ? error.message : error);
+      });
+    return this.writeQueue;
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    await this.writeQueue;
+
+    const results: AuditEntry[] = [];
+    // Active file first, then rotated files from newest to oldest
+    for (let index = 0; index <= this.maxFiles && results.length < query.limit; index++) {
+      const lines = await this.readLines(index === 0 ? this.filePath : `${this.filePath}.${index}`);
+
+      for (let i = lines.length - 1; i >= 0 && results.length < query.limit; i--) {
+        try {
+          const entry = JSON.parse(lines[i]) as AuditEntry;
+          if (matchesAuditQuery(entry, query)) {
+            results.push(entry);
+          }
+        } catch {
+          // Skip partially written lines
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private async append(line: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    try {
+      const { size } = await fs.stat(this.filePath);
+      if (size + Buffer.byteLength(line) > this.maxBytes) {
+        await this.rotate();
+      }
+    } catch {
+      // File doesn't exist yet
+    }
+
+    await fs.appendFile(this.filePath, line, { mode: 0o600 });
+  }
+
+  private async rotate(): Promise<void> {
+    await fs.rm(`${this.filePath}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      await fs.rename(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`).catch(() => undefined);
+    }
+    await fs.rename(this.filePath, `${this.filePath}.1`);
+  }
+
+  private async readLines(filePath: string): Promise<string[]> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      return content.split('\n').filter((line) => line.length > 0);
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { BackendClient, BackendTimeoutError } from './backend-client.js';
+
+let server: http.Server | undefined;
+
+/**
+ * Start a local backend and return its base URL
+ */
+async function startBackend(handler: http.RequestListener): Promise<string> {
+  server = http.createServer(handler);
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+afterEach(async () => {
+  server?.closeAllConnections();
+  await new Promise((resolve) => server?.close(resolve));
+  server = undefined;
+});
+
+describe('BackendClient', () => {
+  it('parses JSON responses', async () => {
+    const baseUrl = await startBackend((_req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ ok: true }));
+    });
+    const client = new BackendClient(baseUrl, 'ik_test');
+    await expect(client.request<{ ok: boolean }>('/api/health')).resolves.toEqual({ ok: true });
+  });
+
+  it('times out when the backend stalls while sending the body', async () => {
+    const baseUrl = await startBackend((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.write('{"rows": [');
+    });
+    const client = new BackendClient(baseUrl, 'ik_test', { timeoutMs: 200, maxRetries: 0 });
+    await expect(client.request('/api/metadata')).rejects.toBeInstanceOf(BackendTimeoutError);
+  });
+
+  it('keeps retries within the request timeout', async () => {
+    let attempts = 0;
+    const baseUrl = await startBackend(() => {
+      attempts++;
+    });
+    const client = new BackendClient(baseUrl, 'ik_test', { timeoutMs: 300, maxRetries: 5 });
+
+    const started = Date.now();
+    await expect(client.request('/api/metadata')).rejects.toThrow('timed out after 300ms');
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(attempts).toBe(1);
+  });
+
+  it('retries gateway errors on idempotent requests', async () => {
+    let attempts = 0;
+    const baseUrl = await startBackend((_req, res) => {
+      attempts++;
+      res.statusCode = attempts === 1 ? 503 : 200;
+      res.end(JSON.stringify({ attempts }));
+    });
+    const client = new BackendClient(baseUrl, 'ik_test', { timeoutMs: 5000 });
+    await expect(client.request('/api/metadata')).resolves.toEqual({ attempts: 2 });
+  });
+});
@@ -0,0 +1,262 @@
+import fetch, { BodyInit, Response } from 'node-fetch';
+import http from 'http';
+import https from 'https';
+import { AsyncLocalStorage } from 'async_hooks';
+import { handleApiResponse } from './response-handler.js';
+
+/**
+ * Options for a single backend request
+ * - auth: Inject the x-api-key header (default: true)
+ * - timeoutMs: Give up after this long, including reading the body and any retries (default: client timeout)
+ * - idempotent: Allow retries; defaults to true for GET requests only
+ * - signal: Abort the request (default: the cancellation signal of the current tool call)
+ */
+export interface BackendRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  headers?: Record<string, string>;
+  body?: BodyInit;
+  auth?: boolean;
+  timeoutMs?: number;
+  idempotent?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Client-wide settings
+ * - timeoutMs: Default request timeout, covering all attempts
+ * - maxRetries: Retries after the first attempt for idempotent requests
+ */
+export interface BackendClientOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 250;
+const RETRY_MAX_DELAY_MS = 4000;
+
+// Gateway errors usually mean the backend is restarting or overloaded
+const RETRYABLE_STATUS_CODES = new Set([502, 503, 504]);
+
+// Shared keep-alive agents so consecutive tool calls reuse connections
+const httpAgent = new http.Agent({ keepAlive: true });
+const httpsAgent = new https.Agent({ keepAlive: true });
+
+/**
+ * Per tool call state shared with every backend request made during the call
+ * - statusCode: Status of the last backend response, recorded by the client
+ * - signal: Cancellation signal of the call, aborts in-flight requests and retries
+ */
+export interface BackendCallScope {
+  statusCode?: number;
+  signal?: AbortSignal;
+}
+
+// Scope per tool invocation, safe across concurrent calls
+const callScope = new AsyncLocalStorage<BackendCallScope>();
+
+/**
+ * Run a function with a call scope applied to the backend requests it makes
+ */
+export function runInBackendScope<T>(scope: BackendCallScope, fn: () => Promise<T>): Promise<T> {
+  return callScope.run(scope, fn);
+}
+
+/**
+ * Error thrown when the client cancels a tool call
+ */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request was cancelled by the client');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Throw RequestCancelledError if the signal has been aborted
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+}
+
+/**
+ * Error thrown when a backend request exceeds its timeout
+ */
+export class BackendTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+    this.name = 'BackendTimeoutError';
+  }
+}
+
+/**
+ * Full jitter backoff: a random delay up to an exponentially growing cap
+ */
+function retryDelay(attempt: number): number {
+  return Math.random() * Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Wait before a retry, rejecting early if the call is cancelled
+ */
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * BackendClient is the single HTTP entry point to an Insforge backend
+ *
+ * It resolves paths against the API base URL, injects the API key, applies timeouts,
+ * retries idempotent requests on network errors and 502/503/504 responses, and reuses
+ * connections through shared keep-alive agents.
+ */
+export class BackendClient {
+  private baseUrl: string;
+  private apiKey: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+
+  constructor(apiBaseUrl: string, apiKey: string, options: BackendClientOptions = {}) {
+    this.baseUrl = apiBaseUrl;
+    this.apiKey = apiKey;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  /**
+   * Base URL requests are resolved against
+   */
+  get apiBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Point the client at another backend (used when switching project profiles)
+   */
+  reconfigure(apiBaseUrl: string, apiKey: string): void {
+    this.baseUrl = apiBaseUrl;
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * Whether an API key is configured
+   */
+  get hasApiKey(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  /**
+   * Returns the configured API key, throws if none is configured
+   */
+  getApiKey(): string {
+    if (!this.apiKey) {
+      throw new Error('API key is required. Pass --api_key when starting the MCP server.');
+    }
+    return this.apiKey;
+  }
+
+  /**
+   * Send a request and return the raw response
+   * @param path Path relative to the API base URL (e.g. /api/metadata) or an absolute URL
+   */
+  async fetch(path: string, options: BackendRequestOptions = {}): Promise<Response> {
+    const { method = 'GET', body, auth = true } = options;
+    const url = /^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`;
+    const headers: Record<string, string> = { ...options.headers };
+    if (auth) {
+      headers['x-api-key'] = this.getApiKey();
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const retries = (options.idempotent ?? method === 'GET') ? this.maxRetries : 0;
+    const signal = options.signal ?? callScope.getStore()?.signal;
+    // Retries share the timeout, so a slow backend cannot stretch one call to several timeouts
+    const deadline = Date.now() + timeoutMs;
+    const canRetry = (attempt: number, delay: number) => attempt < retries && Date.now() + delay < deadline;
+
+    for (let attempt = 0; ; attempt++) {
+      throwIfCancelled(signal);
+      try {
+        const response = await this.send(url, { method, headers, body }, deadline - Date.now(), timeoutMs, signal);
+        const delay = retryDelay(attempt);
+        if (RETRYABLE_STATUS_CODES.has(response.status) && canRetry(attempt, delay)) {
+          await sleep(delay, signal);
+          continue;
+        }
+        return response;
+      } catch (error) {
+        const delay = retryDelay(attempt);
+        if (error instanceof RequestCancelledError || error instanceof BackendTimeoutError || !canRetry(attempt, delay)) {
+          throw error;
+        }
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Send a request and parse the JSON response, throwing on API errors
+   */
+  async request<T = unknown>(path: string, options: BackendRequestOptions = {}): Promise<T> {
+    const response = await this.fetch(path, options);
+    return handleApiResponse(response);
+  }
+
+  /**
+   * Send a single attempt and read its body before the timer stops, so a backend that stalls
+   * mid-body times out as well
+   * @param remainingMs Time left before the deadline of the whole request
+   * @param timeoutMs Timeout of the whole request, reported in BackendTimeoutError
+   */
+  private async send(
+    url: string,
+    init: { method: string; headers: Record<string, string>; body?: BodyInit },
+    remainingMs: number,
+    timeoutMs: number,
+    signal: AbortSignal | undefined
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), Math.max(remainingMs, 0));
+    const onCancel = () => controller.abort();
+    signal?.addEventListener('abort', onCancel, { once: true });
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal: controller.signal,
+        agent: (parsedUrl: URL) => (parsedUrl.protocol === 'http:' ? httpAgent : httpsAgent),
+      });
+
+      const scope = callScope.getStore();
+      if (scope) {
+        scope.statusCode = response.status;
+      }
+      const content = Buffer.from(await response.arrayBuffer());
+      return new Response(content, { status: response.status, statusText: response.statusText, headers: response.headers });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+      if (controller.signal.aborted) {
+        throw new BackendTimeoutError(url, timeoutMs);
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onCancel);
+      clearTimeout(timer);
+    }
+  }
+}
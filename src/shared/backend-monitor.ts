@@ -0,0 +1,220 @@
+import { ConnectionStatus, ToolRegistry } from './tool-registry.js';
+import { BackendClient } from './backend-client.js';
+
+/**
+ * Health check response from backend
+ */
+interface HealthCheckResponse {
+  status: string;
+  version: string;
+  service: string;
+  timestamp: string;
+}
+
+// Health checks fail fast; retries are scheduled by the monitor itself
+const HEALTH_CHECK_TIMEOUT_MS = 10 * 1000;
+
+// Minimum delay between error-triggered version checks
+const ERROR_CHECK_THROTTLE_MS = 30 * 1000;
+
+// Backoff bounds for health check retries while the backend is unreachable
+const RETRY_INITIAL_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60 * 1000;
+
+/**
+ * Fetch backend version from health endpoint
+ * @throws Error if backend is unreachable
+ */
+export async function fetchBackendVersion(backend: BackendClient): Promise<string> {
+  const response = await backend.fetch('/api/health', {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    auth: false,
+    idempotent: false,
+    timeoutMs: HEALTH_CHECK_TIMEOUT_MS,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Health check failed with status ${response.status}`);
+  }
+
+  const health = await response.json() as HealthCheckResponse;
+  return health.version;
+}
+
+/**
+ * BackendVersionMonitor re-checks the backend version so long-lived sessions pick up
+ * tools enabled (or deprecated) by a backend upgrade
+ *
+ * Checks run on a fixed interval and, throttled, after a tool call fails. While the
+ * backend is unreachable (degraded startup) it retries with exponential backoff instead,
+ * switching to periodic checks once the backend answers.
+ */
+export class BackendVersionMonitor {
+  private backend: BackendClient;
+  private registry: ToolRegistry;
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private pendingCheck: Promise<void> | null = null;
+  private lastCheckAt = 0;
+  private attempts = 0;
+  private lastError?: string;
+  private nextRetryAt?: Date;
+
+  constructor(backend: BackendClient, registry: ToolRegistry, intervalMs: number) {
+    this.backend = backend;
+    this.registry = registry;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Start monitoring: periodic checks once connected, backoff retries while unreachable
+   * An interval of 0 disables periodic checks
+   */
+  start(): void {
+    if (!this.registry.connected) {
+      this.scheduleRetry();
+      return;
+    }
+
+    this.registry.onToolError = () => this.requestCheck();
+
+    if (this.intervalMs > 0 && !this.timer) {
+      this.timer = setInterval(() => void this.check(), this.intervalMs);
+      // Don't keep the process alive just for version checks
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Stop all scheduled checks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.clearRetry();
+    this.registry.onToolError = undefined;
+  }
+
+  /**
+   * Record the health check failure that caused a degraded startup
+   */
+  recordFailure(error: unknown): void {
+    this.attempts++;
+    this.lastCheckAt = Date.now();
+    this.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Current connection diagnostics
+   */
+  getStatus(): ConnectionStatus {
+    return {
+      connected: this.registry.connected,
+      attempts: this.attempts,
+      lastError: this.lastError,
+      lastCheckedAt: this.lastCheckAt ? new Date(this.lastCheckAt) : undefined,
+      nextRetryAt: this.nextRetryAt,
+    };
+  }
+
+  /**
+   * Check the backend immediately, skipping any pending backoff delay
+   * @returns true if the backend is reachable
+   */
+  async retryNow(): Promise<boolean> {
+    this.clearRetry();
+    await this.check();
+    return this.registry.connected;
+  }
+
+  /**
+   * Check the version soon, unless a check ran recently
+   */
+  requestCheck(): void {
+    if (Date.now() - this.lastCheckAt < ERROR_CHECK_THROTTLE_MS) {
+      return;
+    }
+    void this.check();
+  }
+
+  /**
+   * Fetch the backend version and re-sync the registered tools if it changed
+   * Concurrent calls share a single in-flight check
+   */
+  check(): Promise<void> {
+    if (!this.pendingCheck) {
+      this.pendingCheck = this.runCheck().finally(() => {
+        this.pendingCheck = null;
+      });
+    }
+    return this.pendingCheck;
+  }
+
+  private async runCheck(): Promise<void> {
+    this.lastCheckAt = Date.now();
+
+    let backendVersion: string;
+    try {
+      backendVersion = await fetchBackendVersion(this.backend);
+    } catch (error) {
+      console.error('Backend version check failed:', error instanceof Error ? error.message : error);
+      if (!this.registry.connected) {
+        this.recordFailure(error);
+        this.scheduleRetry();
+      }
+      return;
+    }
+
+    if (!this.registry.connected) {
+      this.clearRetry();
+      this.lastError = undefined;
+      this.registry.updateBackendVersion(backendVersion);
+      console.error(`Backend reachable (version ${backendVersion}), leaving degraded mode. Tools registered: ${this.registry.toolCount}`);
+      this.start();
+      return;
+    }
+
+    const previousVersion = this.registry.backendVersion;
+    if (backendVersion === previousVersion) {
+      return;
+    }
+
+    console.error(`Backend version changed: ${previousVersion} -> ${backendVersion}`);
+    if (this.registry.updateBackendVersion(backendVersion)) {
+      console.error(`Tools registered: ${this.registry.toolCount}`);
+    }
+  }
+
+  /**
+   * Schedule the next health check retry with jittered exponential backoff
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      return;
+    }
+
+    const baseDelay = Math.min(RETRY_INITIAL_DELAY_MS * 2 ** Math.max(this.attempts - 1, 0), RETRY_MAX_DELAY_MS);
+    const delay = Math.round(baseDelay / 2 + Math.random() * baseDelay / 2);
+    this.nextRetryAt = new Date(Date.now() + delay);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.nextRetryAt = undefined;
+      void this.check();
+    }, delay);
+    this.retryTimer.unref();
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.nextRetryAt = undefined;
+  }
+}
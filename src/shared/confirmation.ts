@@ -0,0 +1,108 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Tokens are single-use and short-lived so a stale one cannot approve a later call
+const TOKEN_TTL_MS = 10 * 60 * 1000;
+const MAX_PENDING_TOKENS = 50;
+
+/**
+ * Asks the user to approve an operation through the client (MCP elicitation)
+ * @returns true if approved, false if declined, or null if the client cannot ask
+ */
+export type AskConfirmation = (message: string) => Promise<boolean | null>;
+
+/**
+ * ConfirmationTokens issues server-side tokens that approve exactly one operation
+ *
+ * A token is bound to a subject (e.g. the backend URL, SQL text and parameters), so it
+ * cannot be reused for a different statement or project, and is consumed on first use.
+ */
+export class ConfirmationTokens {
+  private pending = new Map<string, { subjectHash: string; expiresAt: number }>();
+
+  /**
+   * Issue a token for a subject
+   */
+  issue(subject: string): string {
+    this.evictExpired();
+    while (this.pending.size >= MAX_PENDING_TOKENS) {
+      this.pending.delete(this.pending.keys().next().value as string);
+    }
+
+    const token = randomBytes(6).toString('hex');
+    this.pending.set(token, { subjectHash: hashSubject(subject), expiresAt: Date.now() + TOKEN_TTL_MS });
+    return token;
+  }
+
+  /**
+   * Use up a token
+   * @returns true if the token was issued for this subject and has not expired
+   */
+  consume(token: string, subject: string): boolean {
+    this.evictExpired();
+    const entry = this.pending.get(token);
+    if (!entry || entry.subjectHash !== hashSubject(subject)) {
+      return false;
+    }
+
+    this.pending.delete(token);
+    return true;
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+function hashSubject(subject: string): string {
+  return createHash('sha256').update(subject).digest('hex');
+}
+
+/**
+ * What needs confirming
+ * - subject: What a token is bound to, e.g. the SQL text and parameters
+ * - summary: Why confirmation is needed, e.g. "DROP removes the object"
+ * - details: Shown to the user when asking, e.g. the SQL
+ * - token: The confirm argument passed by the caller, if any
+ */
+export interface ConfirmationRequest {
+  subject: string;
+  summary: string;
+  details: string;
+  token?: string;
+}
+
+/**
+ * Make sure an operation was approved, by a token from an earlier call or by asking the user
+ * @returns How the operation was confirmed
+ * @throws Error if the user declines, or with a fresh token to confirm with when the client cannot ask
+ */
+export async function requireConfirmation(
+  tokens: ConfirmationTokens,
+  ask: AskConfirmation,
+  request: ConfirmationRequest
+): Promise<'token' | 'elicitation'> {
+  if (request.token && tokens.consume(request.token, request.subject)) {
+    return 'token';
+  }
+
+  const approved = await ask(`${request.summary}\n\n${request.details}\n\nRun it?`);
+  if (approved) {
+    return 'elicitation';
+  }
+  if (approved === false) {
+    throw new Error(`Not run: the user declined. ${request.summary}`);
+  }
+
+  const token = tokens.issue(request.subject);
+  const previous = request.token ? ' The confirm token given was invalid, expired or issued for a different statement.' : '';
+  throw new Error(
+    `Confirmation required: ${request.summary}.${previous} Nothing was run. ` +
+      `Show the statement to the user and, only if they approve, call the tool again with the same arguments and confirm: "${token}". ` +
+      'The token expires in 10 minutes and works once.'
+  );
+}
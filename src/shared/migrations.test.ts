@@ -0,0 +1,121 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  AppliedMigration,
+  MigrationFile,
+  migrationChecksum,
+  migrationSlug,
+  migrationStatements,
+  migrationStatuses,
+  migrationVersion,
+  readMigrations,
+} from './migrations.js';
+
+function file(version: string, name: string, up = 'SELECT 1;'): MigrationFile {
+  return { version, name, upPath: `${version}_${name}.up.sql`, up, checksum: migrationChecksum(up) };
+}
+
+function applied(migration: MigrationFile, checksum = migration.checksum): AppliedMigration {
+  return { version: migration.version, name: migration.name, checksum, appliedAt: '2026-01-01 00:00:00+00' };
+}
+
+describe('migrationStatuses', () => {
+  it('reports applied, pending, modified and missing migrations in version order', () => {
+    const first = file('20260101000000', 'create_posts');
+    const second = file('20260102000000', 'add_title');
+    const third = file('20260103000000', 'add_index');
+    const gone = file('20260101120000', 'removed');
+
+    const statuses = migrationStatuses([first, second, third], [applied(first), applied(gone), applied(second, 'edited')]);
+
+    expect(statuses.map(({ version, state }) => [version, state])).toEqual([
+      ['20260101000000', 'applied'],
+      ['20260101120000', 'missing'],
+      ['20260102000000', 'modified'],
+      ['20260103000000', 'pending'],
+    ]);
+  });
+
+  it('flags unapplied migrations older than the latest applied one', () => {
+    const first = file('20260101000000', 'create_posts');
+    const merged = file('20260102000000', 'from_other_branch');
+    const latest = file('20260103000000', 'add_index');
+    const next = file('20260104000000', 'add_comments');
+
+    const statuses = migrationStatuses([first, merged, latest, next], [applied(first), applied(latest)]);
+
+    expect(statuses.map(({ name, state }) => [name, state])).toEqual([
+      ['create_posts', 'applied'],
+      ['from_other_branch', 'out-of-order'],
+      ['add_index', 'applied'],
+      ['add_comments', 'pending'],
+    ]);
+  });
+});
+
+describe('migration names', () => {
+  it('builds versions and slugs', () => {
+    expect(migrationVersion(new Date('2026-03-04T05:06:07.890Z'))).toBe('20260304050607');
+    expect(migrationSlug('Add posts table!')).toBe('add_posts_table');
+    expect(() => migrationSlug('---')).toThrow('has no letters or digits');
+  });
+
+  it('ignores line endings in checksums', () => {
+    expect(migrationChecksum('SELECT 1;\r\nSELECT 2;')).toBe(migrationChecksum('SELECT 1;\nSELECT 2;'));
+  });
+});
+
+describe('migrationStatements', () => {
+  it('splits a file into statements', () => {
+    expect(migrationStatements('CREATE TABLE t (id int);\n-- seed\nINSERT INTO t VALUES (1);', 'a.up.sql')).toEqual([
+      { query: 'CREATE TABLE t (id int)' },
+      { query: 'INSERT INTO t VALUES (1)' },
+    ]);
+  });
+
+  it('rejects empty files and transaction control', () => {
+    expect(() => migrationStatements('-- TODO', 'a.up.sql')).toThrow('a.up.sql has no SQL statements yet');
+    expect(() => migrationStatements('BEGIN; CREATE TABLE t (id int); COMMIT;', 'a.up.sql')).toThrow('a.up.sql contains BEGIN');
+  });
+});
+
+describe('readMigrations', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'insforge-migrations-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('pairs up and down files ordered by version', async () => {
+    await fs.writeFile(path.join(directory, '20260102000000_b.up.sql'), 'SELECT 2;');
+    await fs.writeFile(path.join(directory, '20260101000000_a.up.sql'), 'SELECT 1;');
+    await fs.writeFile(path.join(directory, '20260101000000_a.down.sql'), 'SELECT -1;');
+    await fs.writeFile(path.join(directory, 'README.md'), 'notes');
+
+    const migrations = await readMigrations(directory);
+
+    expect(migrations.map(({ version, name, down }) => ({ version, name, down }))).toEqual([
+      { version: '20260101000000', name: 'a', down: 'SELECT -1;' },
+      { version: '20260102000000', name: 'b', down: undefined },
+    ]);
+  });
+
+  it('returns nothing for a missing directory', async () => {
+    await expect(readMigrations(path.join(directory, 'missing'))).resolves.toEqual([]);
+  });
+
+  it('rejects misnamed files and orphaned down files', async () => {
+    await fs.writeFile(path.join(directory, 'schema.sql'), '');
+    await expect(readMigrations(directory)).rejects.toThrow('"schema.sql" in');
+
+    await fs.rm(path.join(directory, 'schema.sql'));
+    await fs.writeFile(path.join(directory, '20260101000000_a.down.sql'), '');
+    await expect(readMigrations(directory)).rejects.toThrow('"20260101000000_a.down.sql" has no matching up file');
+  });
+});
@@ -0,0 +1,212 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+import { splitStatementText } from './sql-classifier.js';
+import { TransactionStatement, transactionControlKeyword } from './sql-transaction.js';
+
+/**
+ * Directory holding the migration files, relative to the project directory
+ */
+export const MIGRATIONS_DIRECTORY = 'migrations';
+
+/**
+ * Backend table recording which migrations were applied
+ */
+export const MIGRATIONS_TABLE = '_insforge_migrations';
+
+// <14-digit UTC timestamp>_<name>.up.sql and the matching .down.sql
+const MIGRATION_FILE_PATTERN = /^(\d{14})_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+/**
+ * A migration found in the migrations directory
+ * - checksum: sha256 of the up file, compared with the applied checksum to detect edits
+ * - down: Undefined if the migration has no down file and cannot be rolled back
+ */
+export interface MigrationFile {
+  version: string;
+  name: string;
+  upPath: string;
+  downPath?: string;
+  up: string;
+  down?: string;
+  checksum: string;
+}
+
+/**
+ * A row of the migrations table
+ */
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+}
+
+/**
+ * State of a migration
+ * - applied: Applied and its up file is unchanged
+ * - pending: Not applied yet
+ * - out-of-order: Not applied, but older than the latest applied migration (e.g. merged from another branch)
+ * - modified: Applied, but its up file was edited since
+ * - missing: Applied, but its files are gone
+ */
+export const MIGRATION_STATES = ['applied', 'pending', 'out-of-order', 'modified', 'missing'] as const;
+
+export type MigrationState = (typeof MIGRATION_STATES)[number];
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt?: string;
+  file?: MigrationFile;
+}
+
+export const CREATE_MIGRATIONS_TABLE_SQL = `CREATE TABLE IF NOT EXISTS public.${MIGRATIONS_TABLE} (
+  version text PRIMARY KEY,
+  name text NOT NULL,
+  checksum text NOT NULL,
+  applied_at timestamptz NOT NULL DEFAULT now()
+)`;
+
+export const MIGRATIONS_TABLE_EXISTS_SQL = `SELECT to_regclass('public.${MIGRATIONS_TABLE}') IS NOT NULL AS "exists"`;
+
+export const SELECT_APPLIED_MIGRATIONS_SQL =
+  `SELECT version, name, checksum, applied_at::text AS "appliedAt" FROM public.${MIGRATIONS_TABLE} ORDER BY version`;
+
+/**
+ * Checksum of a migration file; line endings are normalized so a checkout on Windows is not an edit
+ */
+export function migrationChecksum(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Version for a new migration: the UTC time as YYYYMMDDHHMMSS
+ */
+export function migrationVersion(date: Date): string {
+  return date.toISOString().replace(/\D/g, '').slice(0, 14);
+}
+
+/**
+ * File-name part of a migration name, e.g. "Add posts table" -> "add_posts_table"
+ */
+export function migrationSlug(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!slug) {
+    throw new Error(`Migration name "${name}" has no letters or digits`);
+  }
+  return slug;
+}
+
+/**
+ * Read the migrations in a directory, ordered by version
+ * @returns An empty list if the directory does not exist
+ * @throws Error for .sql files that are not named like migrations, or down files without an up file
+ */
+export async function readMigrations(directory: string): Promise<MigrationFile[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const ups = new Map<string, { name: string; upPath: string }>();
+  const downs = new Map<string, { name: string; downPath: string }>();
+  for (const entry of entries.sort()) {
+    if (!entry.endsWith('.sql')) {
+      continue;
+    }
+    const match = MIGRATION_FILE_PATTERN.exec(entry);
+    if (!match) {
+      throw new Error(`"${entry}" in ${directory} is not named like a migration (<YYYYMMDDHHMMSS>_<name>.up.sql or .down.sql)`);
+    }
+
+    const [, version, name, direction] = match;
+    const files = direction === 'up' ? ups : downs;
+    const existing = files.get(version);
+    if (existing) {
+      throw new Error(`Migrations "${version}_${existing.name}" and "${version}_${name}" share version ${version}`);
+    }
+    if (direction === 'up') {
+      ups.set(version, { name, upPath: path.join(directory, entry) });
+    } else {
+      downs.set(version, { name, downPath: path.join(directory, entry) });
+    }
+  }
+
+  for (const [version, { name }] of downs) {
+    if (ups.get(version)?.name !== name) {
+      throw new Error(`"${version}_${name}.down.sql" has no matching up file`);
+    }
+  }
+
+  const migrations: MigrationFile[] = [];
+  for (const [version, { name, upPath }] of ups) {
+    const up = await fs.readFile(upPath, 'utf-8');
+    const downPath = downs.get(version)?.downPath;
+    migrations.push({
+      version,
+      name,
+      upPath,
+      downPath,
+      up,
+      down: downPath ? await fs.readFile(downPath, 'utf-8') : undefined,
+      checksum: migrationChecksum(up),
+    });
+  }
+  return migrations.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+/**
+ * Match local migrations against the applied ones, ordered by version
+ */
+export function migrationStatuses(files: MigrationFile[], applied: AppliedMigration[]): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map((migration) => [migration.version, migration]));
+  const latestApplied = applied.reduce((latest, migration) => (migration.version > latest ? migration.version : latest), '');
+  const statuses: MigrationStatus[] = files.map((file) => {
+    const record = appliedByVersion.get(file.version);
+    if (!record) {
+      const state = file.version < latestApplied ? 'out-of-order' : 'pending';
+      return { version: file.version, name: file.name, state, file };
+    }
+    return {
+      version: file.version,
+      name: file.name,
+      state: record.checksum === file.checksum ? 'applied' : 'modified',
+      appliedAt: record.appliedAt,
+      file,
+    };
+  });
+
+  const local = new Set(files.map((file) => file.version));
+  for (const record of applied) {
+    if (!local.has(record.version)) {
+      statuses.push({ version: record.version, name: record.name, state: 'missing', appliedAt: record.appliedAt });
+    }
+  }
+  return statuses.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+/**
+ * Statements of a migration file, for running in one transaction
+ * @throws Error if the file is empty or controls transactions itself
+ */
+export function migrationStatements(sql: string, fileName: string): TransactionStatement[] {
+  const statements = splitStatementText(sql);
+  if (statements.length === 0) {
+    throw new Error(`${fileName} has no SQL statements yet`);
+  }
+
+  for (const statement of statements) {
+    const keyword = transactionControlKeyword(statement);
+    if (keyword) {
+      throw new Error(`${fileName} contains ${keyword}; each migration already runs in a transaction of its own, remove it`);
+    }
+  }
+  return statements.map((query) => ({ query }));
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { OutputPager, describePage, estimateTokens, shrinkToFit } from './output-pager.js';
+
+describe('OutputPager', () => {
+  it('pages a stored result until its end', () => {
+    const pager = new OutputPager(200);
+    const text = Array.from({ length: 100 }, (_, index) => `line ${index}`).join('\n');
+
+    let page = pager.read(pager.store('run-raw-sql', text));
+    const pages = [page];
+    while (page.nextCursor) {
+      page = pager.read(page.nextCursor);
+      pages.push(page);
+    }
+
+    expect(pages.map((item) => item.text).join('')).toBe(text);
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.every((item) => item.toolName === 'run-raw-sql' && item.totalLength === text.length)).toBe(true);
+    // Pages end after a line break where one is close enough
+    expect(pages.slice(0, -1).every((item) => item.text.endsWith('\n'))).toBe(true);
+    expect(pages.at(-1)!.nextCursor).toBeUndefined();
+  });
+
+  it('rejects malformed, unknown and out of range cursors', () => {
+    const pager = new OutputPager(200);
+    const cursor = pager.store('t', 'short');
+
+    expect(() => pager.read('nope')).toThrow("Invalid cursor 'nope'");
+    expect(() => pager.read('abcdef.0')).toThrow('has expired or belongs to another session');
+    expect(() => pager.read(cursor.replace(/\.0$/, '.99'))).toThrow('is past the end of the result (5 characters)');
+  });
+
+  it('forgets every result on clear', () => {
+    const pager = new OutputPager(200);
+    const cursor = pager.store('t', 'text');
+    pager.clear();
+    expect(() => pager.read(cursor)).toThrow('has expired');
+  });
+
+  it('evicts the oldest result once the cache is full', () => {
+    const pager = new OutputPager(200);
+    const first = pager.store('t', 'first');
+    for (let index = 0; index < 20; index++) {
+      pager.store('t', `result ${index}`);
+    }
+    expect(() => pager.read(first)).toThrow('has expired');
+  });
+});
+
+describe('describePage', () => {
+  it('tells how to continue a truncated result', () => {
+    expect(describePage({ toolName: 't', text: 'abcd', offset: 0, end: 4, totalLength: 8, nextCursor: 'ab.4' })).toBe(
+      '[Output truncated: showing characters 1-4 of 8 (~1 tokens). Call fetch-more with cursor "ab.4" for the next page.]'
+    );
+    expect(describePage({ toolName: 't', text: 'efgh', offset: 4, end: 8, totalLength: 8 })).toBe(
+      '[End of output: showing characters 5-8 of 8 (~1 tokens).]'
+    );
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('12345')).toBe(2);
+  });
+});
+
+describe('shrinkToFit', () => {
+  it('halves the largest array and keeps the shape of the value', () => {
+    const value = { rows: Array.from({ length: 100 }, (_, id) => ({ id })), rowCount: 100 };
+    const { value: shrunk, truncated } = shrinkToFit(value, 300);
+
+    expect(truncated).toBe(true);
+    expect(JSON.stringify(shrunk).length).toBeLessThanOrEqual(300);
+    expect(shrunk.rowCount).toBe(100);
+    expect(shrunk.rows[0]).toEqual({ id: 0 });
+    expect(value.rows).toHaveLength(100);
+  });
+
+  it('cuts long strings', () => {
+    const { value } = shrinkToFit({ code: 'x'.repeat(1000) }, 200);
+    expect(value.code).toMatch(/^x+… \[truncated\]$/);
+    expect(JSON.stringify(value).length).toBeLessThanOrEqual(200);
+  });
+
+  it('leaves values that fit alone', () => {
+    expect(shrinkToFit({ a: [1, 2] }, 100)).toEqual({ value: { a: [1, 2] }, truncated: false });
+  });
+});
@@ -0,0 +1,227 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Default output budget per tool result, in tokens
+ */
+export const DEFAULT_MAX_OUTPUT_TOKENS = 10_000;
+
+// Rough token estimate, good enough for JSON and English text
+const CHARS_PER_TOKEN = 4;
+
+// Room left in each page for the continuation notice
+const NOTICE_RESERVE_CHARS = 400;
+
+// Results cached per session; the oldest is evicted first
+const MAX_CACHED_RESULTS = 20;
+const RESULT_TTL_MS = 30 * 60 * 1000;
+
+// Bound on shrink passes for structured content
+const MAX_SHRINK_PASSES = 64;
+
+interface CachedResult {
+  toolName: string;
+  text: string;
+  expiresAt: number;
+}
+
+/**
+ * A page of a cached result
+ * - offset/end: Character range of this page in the full result
+ * - nextCursor: Set while more of the result remains
+ */
+export interface OutputPage {
+  toolName: string;
+  text: string;
+  offset: number;
+  end: number;
+  totalLength: number;
+  nextCursor?: string;
+}
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * OutputPager caps tool output at a token budget and caches oversized results
+ * so they can be read page by page with fetch-more
+ *
+ * Cursors have the form "<result id>.<offset>" and are only valid within the
+ * session that produced them.
+ */
+export class OutputPager {
+  readonly maxChars: number;
+  private results = new Map<string, CachedResult>();
+
+  constructor(maxTokens: number = DEFAULT_MAX_OUTPUT_TOKENS) {
+    this.maxChars = maxTokens * CHARS_PER_TOKEN;
+  }
+
+  /**
+   * Whether a text fits the output budget
+   */
+  fits(text: string): boolean {
+    return text.length <= this.maxChars;
+  }
+
+  /**
+   * Cache a full result
+   * @returns Cursor for the first page
+   */
+  store(toolName: string, text: string): string {
+    this.evictExpired();
+    while (this.results.size >= MAX_CACHED_RESULTS) {
+      const oldest = this.results.keys().next().value as string;
+      this.results.delete(oldest);
+    }
+
+    const id = randomBytes(6).toString('hex');
+    this.results.set(id, { toolName, text, expiresAt: Date.now() + RESULT_TTL_MS });
+    return `${id}.0`;
+  }
+
+  /**
+   * Drop every cached result, e.g. when the session switches to another project
+   */
+  clear(): void {
+    this.results.clear();
+  }
+
+  /**
+   * Read the page a cursor points at
+   * @throws Error if the cursor is malformed, expired or from another session
+   */
+  read(cursor: string): OutputPage {
+    const match = /^([0-9a-f]+)\.(\d+)$/.exec(cursor);
+    if (!match) {
+      throw new Error(`Invalid cursor '${cursor}'`);
+    }
+
+    this.evictExpired();
+    const [, id, offsetText] = match;
+    const result = this.results.get(id);
+    if (!result) {
+      throw new Error(`Cursor '${cursor}' has expired or belongs to another session. Run the original tool again.`);
+    }
+
+    const offset = Number(offsetText);
+    if (offset >= result.text.length) {
+      throw new Error(`Cursor '${cursor}' is past the end of the result (${result.text.length} characters)`);
+    }
+
+    const end = this.pageEnd(result.text, offset);
+    return {
+      toolName: result.toolName,
+      text: result.text.slice(offset, end),
+      offset,
+      end,
+      totalLength: result.text.length,
+      nextCursor: end < result.text.length ? `${id}.${end}` : undefined,
+    };
+  }
+
+  /**
+   * End of the page starting at offset, cut after a line break where possible
+   */
+  private pageEnd(text: string, offset: number): number {
+    const pageSize = this.maxChars - NOTICE_RESERVE_CHARS;
+    const end = offset + pageSize;
+    if (end >= text.length) {
+      return text.length;
+    }
+
+    const lineBreak = text.lastIndexOf('\n', end - 1);
+    return lineBreak > offset + pageSize / 2 ? lineBreak + 1 : end;
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [id, result] of this.results) {
+      if (result.expiresAt <= now) {
+        this.results.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Describe where a page sits in its result and how to continue
+ */
+export function describePage(page: OutputPage): string {
+  const range = `characters ${page.offset + 1}-${page.end} of ${page.totalLength} (~${estimateTokens(page.text)} tokens)`;
+  return page.nextCursor
+    ? `[Output truncated: showing ${range}. Call fetch-more with cursor "${page.nextCursor}" for the next page.]`
+    : `[End of output: showing ${range}.]`;
+}
+
+/**
+ * Shrink a JSON value until it serializes within maxChars
+ * The largest array is halved or the longest string cut, so the value keeps its shape
+ * @returns The shrunk value and whether anything was removed
+ */
+export function shrinkToFit<T>(value: T, maxChars: number): { value: T; truncated: boolean } {
+  let current = structuredClone(value);
+  let truncated = false;
+
+  for (let pass = 0; pass < MAX_SHRINK_PASSES && JSON.stringify(current).length > maxChars; pass++) {
+    const largest = findLargest(current);
+    if (!largest) {
+      break;
+    }
+
+    const { node, size } = largest;
+    const shrunk = Array.isArray(node)
+      ? node.slice(0, Math.floor(node.length / 2))
+      : `${(node as string).slice(0, Math.floor((node as string).length / 2))}… [truncated]`;
+    if (largest.parent === undefined) {
+      current = shrunk as T;
+    } else {
+      (largest.parent as Record<string | number, unknown>)[largest.key!] = shrunk;
+    }
+    truncated = true;
+
+    // A node that no longer shrinks would loop forever
+    if (JSON.stringify(shrunk).length >= size) {
+      break;
+    }
+  }
+
+  return { value: current, truncated };
+}
+
+interface ShrinkTarget {
+  node: unknown[] | string;
+  size: number;
+  parent?: object;
+  key?: string | number;
+}
+
+/**
+ * Find the array or string with the largest serialized size
+ */
+function findLargest(value: unknown, parent?: object, key?: string | number): ShrinkTarget | null {
+  let best: ShrinkTarget | null = null;
+  const consider = (target: ShrinkTarget | null) => {
+    if (target && (!best || target.size > best.size)) {
+      best = target;
+    }
+  };
+
+  if (typeof value === 'string' && value.length > 1) {
+    consider({ node: value, size: value.length, parent, key });
+  } else if (Array.isArray(value)) {
+    if (value.length > 1) {
+      consider({ node: value, size: JSON.stringify(value).length, parent, key });
+    }
+    value.forEach((item, index) => consider(findLargest(item, value, index)));
+  } else if (value && typeof value === 'object') {
+    for (const [childKey, child] of Object.entries(value)) {
+      consider(findLargest(child, value, childKey));
+    }
+  }
+
+  return best;
+}
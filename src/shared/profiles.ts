@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * Default location of the profiles file
+ */
+export const DEFAULT_PROFILES_PATH = path.join(os.homedir(), '.insforge', 'profiles.json');
+
+const projectProfileSchema = z.object({
+  apiBaseUrl: z.string().url(),
+  apiKey: z.string().optional(),
+  description: z.string().optional(),
+});
+
+const profilesFileSchema = z.object({
+  profiles: z.record(projectProfileSchema),
+});
+
+/**
+ * A named backend binding, e.g. dev/staging/prod
+ */
+export type ProjectProfile = z.infer<typeof projectProfileSchema>;
+
+/**
+ * Profiles keyed by name
+ *
+ * Example profiles file:
+ * {
+ *   "profiles": {
+ *     "dev": { "apiBaseUrl": "http://localhost:7130", "apiKey": "ik_..." },
+ *     "prod": { "apiBaseUrl": "https://my-app.us-east.insforge.app", "apiKey": "ik_..." }
+ *   }
+ * }
+ */
+export type ProjectProfiles = Record<string, ProjectProfile>;
+
+/**
+ * Load and validate a profiles file
+ * @returns null if the file does not exist
+ * @throws Error if the file cannot be parsed or fails validation
+ */
+export async function loadProfiles(filePath: string): Promise<ProjectProfiles | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new Error(`Invalid JSON in profiles file ${filePath}: ${errMsg}`);
+  }
+
+  const result = profilesFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid profiles file ${filePath}: ${issues}`);
+  }
+
+  return result.data.profiles;
+}
@@ -0,0 +1,123 @@
+import { Readable } from 'stream';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// Minimum time between progress notifications; intermediate updates are coalesced
+const PROGRESS_THROTTLE_MS = 200;
+
+// Chunk size used when streaming upload bodies, also the granularity of upload progress
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Report progress of a long-running tool call
+ * @param progress - Work done so far, must not decrease
+ * @param total - Total work, if known
+ * @param message - Human-readable description of the current stage
+ */
+export type ReportProgress = (progress: number, total?: number, message?: string) => void;
+
+type Progress = { progress: number; total?: number; message?: string };
+
+/**
+ * ProgressReporter sends MCP progress notifications for one tool call
+ *
+ * Does nothing unless the client sent a progress token with the request. Updates are
+ * throttled (the latest pending update is sent when the window closes) and never go
+ * backwards. Call finish() when the tool returns: no notifications follow the result.
+ */
+export class ProgressReporter {
+  private extra: RequestHandlerExtra<ServerRequest, ServerNotification>;
+  private lastSentAt = 0;
+  private lastProgress = 0;
+  private pending?: Progress;
+  private timer?: NodeJS.Timeout;
+  private finished = false;
+
+  constructor(extra: RequestHandlerExtra<ServerRequest, ServerNotification>) {
+    this.extra = extra;
+  }
+
+  report: ReportProgress = (progress, total, message) => {
+    if (this.finished || this.extra._meta?.progressToken === undefined) {
+      return;
+    }
+
+    this.pending = { progress: Math.max(progress, this.lastProgress), total, message };
+    this.lastProgress = this.pending.progress;
+
+    const wait = this.lastSentAt + PROGRESS_THROTTLE_MS - Date.now();
+    const complete = total !== undefined && progress >= total;
+    if (wait <= 0 || complete) {
+      this.sendPending();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.sendPending(), wait);
+    }
+  };
+
+  finish(): void {
+    this.finished = true;
+    this.pending = undefined;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private sendPending(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (!this.pending || this.finished) {
+      return;
+    }
+
+    const progressToken = this.extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return;
+    }
+
+    const { progress, total, message } = this.pending;
+    this.pending = undefined;
+    this.lastSentAt = Date.now();
+
+    this.extra
+      .sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message },
+      })
+      .catch((error) => {
+        console.error('Failed to send progress notification:', error instanceof Error ? error.message : error);
+      });
+  }
+}
+
+/**
+ * Stream a buffer as a request body, reporting bytes sent as it is consumed
+ */
+export function uploadBody(data: Buffer, onProgress: (bytesSent: number) => void): Readable {
+  let offset = 0;
+
+  return new Readable({
+    read() {
+      if (offset >= data.length) {
+        this.push(null);
+        return;
+      }
+
+      const chunk = data.subarray(offset, offset + UPLOAD_CHUNK_SIZE);
+      offset += chunk.length;
+      this.push(chunk);
+      onProgress(offset);
+    },
+  });
+}
+
+/**
+ * Format a byte count for progress messages, e.g. "3.4 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,173 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { ToolContext } from './tool-registry.js';
+import { getSecretRedactor } from './redaction.js';
+import { extractFunctions, fetchBackendJson } from './resources.js';
+import { fetchContainerLogs } from './tool-definitions/logs.js';
+
+/**
+ * Fetch a piece of live context for a prompt
+ * Failures are reported inline so a prompt is still usable when the backend is partially unavailable
+ * Secrets are masked the same way as in tool results
+ */
+async function contextSection(title: string, fetcher: () => Promise<unknown>): Promise<string> {
+  try {
+    const data = await fetcher();
+    const body = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+    return `## ${title}\n\n${getSecretRedactor().redact(body)}`;
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+    return `## ${title}\n\n(Unavailable: ${getSecretRedactor().redact(errMsg)})`;
+  }
+}
+
+/**
+ * Build a single user message from a task description and its context sections
+ */
+function promptMessage(description: string, task: string, sections: string[]): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: [task, ...sections].join('\n\n---\n\n'),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Register prompts for common Insforge workflows on an MCP server
+ * Each prompt pulls live context (instructions, metadata, logs) from the backend when requested
+ * @param isToolRegistered - Whether a tool is offered right now; prompts only point the agent at tools it has,
+ * not at ones hidden by read-only mode or the tool filter
+ */
+export function registerInsforgePrompts(
+  server: McpServer,
+  context: ToolContext,
+  isToolRegistered: (name: string) => boolean
+): void {
+  const instructions = () => contextSection('Insforge instructions', () => context.fetchDocumentation('instructions'));
+  const metadata = () => contextSection('Current backend metadata', () => fetchBackendJson(context, '/api/metadata'));
+
+  server.registerPrompt(
+    'design-schema',
+    {
+      title: 'Design a database schema',
+      description: 'Design tables, relations and RLS policies from a description of the app',
+      argsSchema: {
+        description: z.string().describe('What the app does and what data it needs to store'),
+      },
+    },
+    async ({ description }) => {
+      const sections = await Promise.all([instructions(), metadata()]);
+      return promptMessage(
+        'Design a database schema',
+        `Design an Insforge database schema for the following app:\n\n${description}\n\n` +
+          'Review the existing tables below and extend them rather than duplicating them. ' +
+          'Propose the tables, columns, foreign keys, indexes and RLS policies, explain the design, ' +
+          // run-raw-sql stays registered in read-only mode but only runs reads there
+          (isToolRegistered('run-raw-sql') && !context.readOnly
+            ? 'then apply it with the run-raw-sql tool once I confirm.'
+            : 'and give me the SQL to apply it.'),
+        sections
+      );
+    }
+  );
+
+  server.registerPrompt(
+    'add-authentication',
+    {
+      title: 'Add authentication to my app',
+      description: 'Wire Insforge authentication into a frontend app',
+      argsSchema: {
+        framework: z.string().optional().describe('Frontend framework, e.g. react or nextjs'),
+      },
+    },
+    async ({ framework }) => {
+      const sections = await Promise.all([
+        instructions(),
+        contextSection('Auth SDK documentation', () => context.fetchDocumentation('auth-sdk')),
+        metadata(),
+      ]);
+      const target = framework ? `my ${framework} app` : 'my app';
+      return promptMessage(
+        'Add authentication',
+        `Add Insforge authentication to ${target}. ` +
+          'Use the auth configuration in the backend metadata below to decide which sign-in methods to support, ' +
+          'add sign-up, sign-in and sign-out flows, and protect user data with RLS policies where needed.',
+        sections
+      );
+    }
+  );
+
+  server.registerPrompt(
+    'debug-edge-function',
+    {
+      title: 'Debug a failing edge function',
+      description: 'Investigate an edge function using its source code and recent function logs',
+      argsSchema: {
+        slug: completable(z.string().describe('Slug of the failing edge function'), async (value) => {
+          try {
+            const functions = extractFunctions(await fetchBackendJson(context, '/api/functions'));
+            return functions.map((fn) => fn.slug).filter((slug) => slug.startsWith(value));
+          } catch {
+            return [];
+          }
+        }),
+        error: z.string().optional().describe('Error message or unexpected behaviour observed'),
+      },
+    },
+    async ({ slug, error }) => {
+      const sections = await Promise.all([
+        contextSection(`Edge function '${slug}'`, () => fetchBackendJson(context, `/api/functions/${encodeURIComponent(slug)}`)),
+        contextSection('Recent function logs', () => fetchContainerLogs(context, 'function.logs', 50)),
+        contextSection('Functions SDK documentation', () => context.fetchDocumentation('functions-sdk')),
+      ]);
+      const observed = error ? `\n\nObserved problem:\n${error}` : '';
+      return promptMessage(
+        'Debug an edge function',
+        `The edge function '${slug}' is failing.${observed}\n\n` +
+          'Use its source code and the recent function logs below to find the root cause, ' +
+          (isToolRegistered('update-function')
+            ? 'explain it, and fix it with the update-function tool.'
+            : 'explain it, and show me the fixed source code.'),
+        sections
+      );
+    }
+  );
+
+  server.registerPrompt(
+    'prepare-deployment',
+    {
+      title: 'Prepare a deployment',
+      description: 'Check an app is ready to deploy and walk through deploying it',
+      argsSchema: {
+        sourceDirectory: z.string().optional().describe('Absolute path to the app to deploy'),
+      },
+    },
+    async ({ sourceDirectory }) => {
+      const sections = await Promise.all([
+        contextSection('Deployment documentation', () => context.fetchDocumentation('deployment')),
+        metadata(),
+        contextSection('Recent backend logs', () => fetchContainerLogs(context, 'insforge.logs', 20)),
+      ]);
+      const target = sourceDirectory ? `the app in ${sourceDirectory}` : 'my app';
+      return promptMessage(
+        'Prepare a deployment',
+        `Prepare ${target} for deployment. ` +
+          'Check the build settings, make sure every environment variable the app needs is set, ' +
+          'verify the backend tables and buckets it relies on exist, and flag any recent backend errors. ' +
+          (isToolRegistered('create-deployment')
+            ? 'Then deploy it with the create-deployment tool once I confirm.'
+            : 'Then tell me how to deploy it.'),
+        sections
+      );
+    }
+  );
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { buildAnalyzeSql, extractRaisedPlan } from './query-plan.js';
+import { inlineSqlParams } from './sql-classifier.js';
+
+describe('buildAnalyzeSql', () => {
+  it('keeps parameters containing dollar-quote tags inside the quoted query', () => {
+    const query = inlineSqlParams('SELECT * FROM posts WHERE title = $1', ['x$insforge_query$; DROP TABLE users; --']);
+    const sql = buildAnalyzeSql(query);
+
+    const outer = sql.match(/^DO (\$insforge_[0-9a-f]+_explain\$)/)![1];
+    const inner = sql.match(/(\$insforge_[0-9a-f]+_query\$)/)![1];
+    expect(sql.split(outer)).toHaveLength(3);
+    expect(sql.split(inner)).toEqual([expect.any(String), query, expect.any(String)]);
+  });
+});
+
+describe('extractRaisedPlan', () => {
+  it('reads the plan from the raised error', () => {
+    const plan = [{ Plan: { 'Node Type': 'Seq Scan', 'Startup Cost': 0, 'Total Cost': 1, 'Plan Rows': 1 } }];
+    expect(extractRaisedPlan(`ERROR: INSFORGE_EXPLAIN_PLAN:${JSON.stringify(plan)}:INSFORGE_EXPLAIN_PLAN`)).toEqual(plan);
+    expect(extractRaisedPlan('ERROR: relation "posts" does not exist')).toBeNull();
+  });
+});
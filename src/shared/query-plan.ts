@@ -0,0 +1,231 @@
+import { dollarQuoteName } from './sql-classifier.js';
+
+/**
+ * A node of a Postgres EXPLAIN (FORMAT JSON) plan; Actual* fields are set with ANALYZE
+ */
+export interface PlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  Alias?: string;
+  'Index Name'?: string;
+  'Startup Cost': number;
+  'Total Cost': number;
+  'Plan Rows': number;
+  'Actual Total Time'?: number;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  Filter?: string;
+  'Index Cond'?: string;
+  'Rows Removed by Filter'?: number;
+  Plans?: PlanNode[];
+  [key: string]: unknown;
+}
+
+/**
+ * Top-level entry of an EXPLAIN (FORMAT JSON) result
+ */
+export interface QueryPlan {
+  Plan: PlanNode;
+  'Planning Time'?: number;
+  'Execution Time'?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Something in a plan worth looking at
+ * - seq-scan: Sequential scan on a large table
+ * - misestimate: Actual row count far from the planner's estimate (ANALYZE only)
+ * - expensive: Node taking a large share of the time (ANALYZE) or cost
+ */
+export interface PlanFinding {
+  kind: 'seq-scan' | 'misestimate' | 'expensive';
+  node: string;
+  detail: string;
+}
+
+/**
+ * Condensed plan: an indented one-line-per-node tree plus findings
+ */
+export interface PlanSummary {
+  tree: string;
+  findings: PlanFinding[];
+  totalCost: number;
+  planningTimeMs?: number;
+  executionTimeMs?: number;
+}
+
+// Tables with at least this many rows are worth an index when scanned sequentially
+const LARGE_TABLE_ROWS = 10_000;
+
+// Actual rows this many times above or below the estimate count as a misestimate
+const MISESTIMATE_FACTOR = 10;
+
+// Nodes reported as expensive, and the share of the total they must take
+const MAX_EXPENSIVE_NODES = 3;
+const MIN_EXPENSIVE_SHARE = 0.1;
+
+// Conditions longer than this are cut in the tree
+const MAX_CONDITION_LENGTH = 80;
+
+// Marks the plan in the error raised to roll back EXPLAIN ANALYZE
+const PLAN_MARKER = 'INSFORGE_EXPLAIN_PLAN';
+
+/**
+ * SQL running EXPLAIN ANALYZE on a query and rolling back whatever it changed
+ *
+ * The statement runs inside a DO block that raises an exception carrying the plan,
+ * which aborts the block's transaction; see extractRaisedPlan.
+ */
+export function buildAnalyzeSql(query: string): string {
+  const name = dollarQuoteName([query]);
+  return `DO $${name}_explain$
+DECLARE
+  plan json;
+BEGIN
+  EXECUTE 'EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON) ' || $${name}_query$${query}$${name}_query$ INTO plan;
+  RAISE EXCEPTION '${PLAN_MARKER}:%:${PLAN_MARKER}', plan;
+END
+$${name}_explain$`;
+}
+
+/**
+ * Pull the plan out of the error raised by buildAnalyzeSql
+ * @returns null if the error is a real failure of the query
+ */
+export function extractRaisedPlan(errorMessage: string): QueryPlan[] | null {
+  const match = new RegExp(`${PLAN_MARKER}:([\\s\\S]*):${PLAN_MARKER}`).exec(errorMessage);
+  return match ? (JSON.parse(match[1]) as QueryPlan[]) : null;
+}
+
+function nodeLabel(node: PlanNode): string {
+  let label = node['Node Type'];
+  if (node['Index Name']) {
+    label += ` using ${node['Index Name']}`;
+  }
+  if (node['Relation Name']) {
+    label += ` on ${node['Relation Name']}`;
+    if (node.Alias && node.Alias !== node['Relation Name']) {
+      label += ` ${node.Alias}`;
+    }
+  }
+  return label;
+}
+
+function shorten(text: string): string {
+  return text.length > MAX_CONDITION_LENGTH ? `${text.slice(0, MAX_CONDITION_LENGTH - 1)}…` : text;
+}
+
+function formatCount(count: number): string {
+  return Math.round(count).toLocaleString('en-US');
+}
+
+function isAnalyzed(node: PlanNode): boolean {
+  return node['Actual Loops'] !== undefined;
+}
+
+/**
+ * Time (ANALYZE) or cost spent in a node itself, excluding its children
+ */
+function selfWeight(node: PlanNode): number {
+  const children = node.Plans ?? [];
+  if (isAnalyzed(node)) {
+    const total = (node['Actual Total Time'] ?? 0) * (node['Actual Loops'] ?? 1);
+    const childTotal = children.reduce((sum, child) => sum + (child['Actual Total Time'] ?? 0) * (child['Actual Loops'] ?? 1), 0);
+    return Math.max(total - childTotal, 0);
+  }
+  const childCost = children.reduce((sum, child) => sum + child['Total Cost'], 0);
+  return Math.max(node['Total Cost'] - childCost, 0);
+}
+
+function flattenPlan(node: PlanNode, depth = 0): { node: PlanNode; depth: number }[] {
+  return [{ node, depth }, ...(node.Plans ?? []).flatMap((child) => flattenPlan(child, depth + 1))];
+}
+
+function treeLine(node: PlanNode, depth: number): string {
+  let line = `${'  '.repeat(depth)}-> ${nodeLabel(node)} (cost=${node['Startup Cost'].toFixed(2)}..${node['Total Cost'].toFixed(2)} rows=${formatCount(node['Plan Rows'])})`;
+  if (isAnalyzed(node)) {
+    line += node['Actual Loops'] === 0
+      ? ' (never executed)'
+      : ` (actual time=${node['Actual Total Time']?.toFixed(3)}ms rows=${formatCount(node['Actual Rows'] ?? 0)} loops=${node['Actual Loops']})`;
+  }
+  const condition = node['Index Cond'] ?? node.Filter;
+  if (condition) {
+    line += ` [${node['Index Cond'] ? 'index cond' : 'filter'}: ${shorten(condition)}]`;
+  }
+  return line;
+}
+
+/**
+ * Condense a plan and point out sequential scans on large tables, misestimated row counts
+ * and the most expensive nodes
+ * @param tableRows - Estimated row counts of scanned tables (pg_class.reltuples), if known
+ */
+export function summarizePlan(plan: QueryPlan, tableRows: Map<string, number> = new Map()): PlanSummary {
+  const nodes = flattenPlan(plan.Plan);
+  const analyzed = isAnalyzed(plan.Plan);
+  const findings: PlanFinding[] = [];
+
+  for (const { node } of nodes) {
+    const relation = node['Relation Name'];
+    if (node['Node Type'] === 'Seq Scan' && relation) {
+      const loops = node['Actual Loops'] ?? 1;
+      const scanned = tableRows.get(relation)
+        ?? (analyzed ? ((node['Actual Rows'] ?? 0) + (node['Rows Removed by Filter'] ?? 0)) * loops : node['Plan Rows']);
+      if (scanned >= LARGE_TABLE_ROWS) {
+        findings.push({
+          kind: 'seq-scan',
+          node: nodeLabel(node),
+          detail: `Sequential scan over ~${formatCount(scanned)} rows${node.Filter ? ` filtered by ${shorten(node.Filter)}; an index on the filtered columns may help` : ''}`,
+        });
+      }
+    }
+
+    if (analyzed && node['Actual Loops'] && node['Actual Rows'] !== undefined) {
+      const estimated = node['Plan Rows'];
+      const actual = node['Actual Rows'];
+      const factor = Math.max(actual, 1) / Math.max(estimated, 1);
+      if (factor >= MISESTIMATE_FACTOR || factor <= 1 / MISESTIMATE_FACTOR) {
+        const ratio = factor >= 1 ? `${Math.round(factor)}x more` : `${Math.round(1 / factor)}x fewer`;
+        findings.push({
+          kind: 'misestimate',
+          node: nodeLabel(node),
+          detail: `Estimated ${formatCount(estimated)} rows, got ${formatCount(actual)} (${ratio}); table statistics may be stale (run ANALYZE)`,
+        });
+      }
+    }
+  }
+
+  const total = nodes.reduce((sum, { node }) => sum + selfWeight(node), 0);
+  if (total > 0) {
+    const expensive = nodes
+      .map(({ node }) => ({ node, share: selfWeight(node) / total }))
+      .filter(({ share }) => share >= MIN_EXPENSIVE_SHARE)
+      .sort((a, b) => b.share - a.share)
+      .slice(0, MAX_EXPENSIVE_NODES);
+    for (const { node, share } of expensive) {
+      findings.push({
+        kind: 'expensive',
+        node: nodeLabel(node),
+        detail: `${Math.round(share * 100)}% of the ${analyzed ? `execution time (${selfWeight(node).toFixed(3)}ms)` : 'estimated cost'}`,
+      });
+    }
+  }
+
+  return {
+    tree: nodes.map(({ node, depth }) => treeLine(node, depth)).join('\n'),
+    findings,
+    totalCost: plan.Plan['Total Cost'],
+    planningTimeMs: plan['Planning Time'],
+    executionTimeMs: plan['Execution Time'],
+  };
+}
+
+/**
+ * Tables read by sequential scans, for looking up their sizes
+ */
+export function seqScannedTables(plan: QueryPlan): string[] {
+  const names = flattenPlan(plan.Plan)
+    .filter(({ node }) => node['Node Type'] === 'Seq Scan' && node['Relation Name'])
+    .map(({ node }) => node['Relation Name'] as string);
+  return [...new Set(names)];
+}
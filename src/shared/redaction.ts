@@ -0,0 +1,105 @@
+import { format } from 'util';
+
+// JSON Web Tokens (anon keys, access tokens): base64url header.payload.signature
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/g;
+
+// Insforge API keys, e.g. ik_d02a35cfd8056c18e9e59b34bf8bf773
+const API_KEY_PATTERN = /\bik_[A-Za-z0-9]{16,}\b/g;
+
+// x-api-key header values in logged requests or headers objects
+const API_KEY_HEADER_PATTERN = /(x-api-key["']?\s*[:=]\s*["']?)([^\s"',}]+)/gi;
+
+// Environment variables whose values are treated as secrets
+const SECRET_ENV_NAME_PATTERN = /(KEY|TOKEN|SECRET|PASSWORD|CREDENTIAL)/i;
+
+// Shorter values are too likely to appear in normal output to be masked
+const MIN_SECRET_LENGTH = 8;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * SecretRedactor masks API keys, JWTs and known secret values in text
+ *
+ * Known values come from secret-looking environment variables and from values
+ * registered at runtime (e.g. the API key the server was started with).
+ */
+export class SecretRedactor {
+  private secrets = new Set<string>();
+  // Longest first, so a secret containing another is masked whole
+  private sortedSecrets: string[] = [];
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    for (const [name, value] of Object.entries(env)) {
+      if (value && SECRET_ENV_NAME_PATTERN.test(name)) {
+        this.addSecret(value);
+      }
+    }
+  }
+
+  /**
+   * Mask this exact value wherever it appears
+   */
+  addSecret(value: string): void {
+    if (value.length < MIN_SECRET_LENGTH || this.secrets.has(value)) {
+      return;
+    }
+    this.secrets.add(value);
+    this.sortedSecrets = [...this.secrets].sort((a, b) => b.length - a.length);
+  }
+
+  redact(text: string): string {
+    let result = text;
+    for (const secret of this.sortedSecrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+
+    return result
+      .replace(API_KEY_HEADER_PATTERN, `$1${REDACTED}`)
+      .replace(JWT_PATTERN, '[REDACTED JWT]')
+      .replace(API_KEY_PATTERN, `ik_${REDACTED}`);
+  }
+
+  /**
+   * Redact every string inside a JSON-like value
+   */
+  redactValue<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.redact(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item)) as T;
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactValue(item)])
+      ) as T;
+    }
+    return value;
+  }
+}
+
+// Singleton instance
+let redactor: SecretRedactor | null = null;
+
+/**
+ * Get the process-wide secret redactor
+ */
+export function getSecretRedactor(): SecretRedactor {
+  if (!redactor) {
+    redactor = new SecretRedactor();
+  }
+  return redactor;
+}
+
+/**
+ * Redact secrets from console output (log, warn, error)
+ * Arguments are formatted the way console would format them, then redacted
+ */
+export function installConsoleRedaction(): void {
+  for (const method of ['log', 'warn', 'error'] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      original(getSecretRedactor().redact(format(...args)));
+    };
+  }
+}
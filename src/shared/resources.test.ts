@@ -0,0 +1,86 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, expect, it } from 'vitest';
+import { extractFunctions, registerInsforgeResources } from './resources.js';
+import { registerInsforgePrompts } from './prompts.js';
+import { ToolContext } from './tool-registry.js';
+
+const SOURCE = "const key = 'ik_d02a35cfd8056c18e9e59b34bf8bf773';";
+
+type Callback = (...args: any[]) => Promise<any>;
+
+/**
+ * Capture the read callbacks registered on a server
+ */
+function captureServer() {
+  const resources = new Map<string, Callback>();
+  const prompts = new Map<string, Callback>();
+  const server = {
+    registerResource: (name: string, _uri: unknown, _metadata: unknown, read: Callback) => resources.set(name, read),
+    registerPrompt: (name: string, _config: unknown, build: Callback) => prompts.set(name, build),
+  } as unknown as McpServer;
+  return { server, resources, prompts };
+}
+
+const context = {
+  backend: {
+    request: async (path: string) => {
+      if (path.startsWith('/api/functions/')) {
+        return { slug: 'hello', code: SOURCE };
+      }
+      throw new Error(`unexpected request ${path}`);
+    },
+    fetch: async () => {
+      throw new Error('logs unavailable for ik_d02a35cfd8056c18e9e59b34bf8bf773');
+    },
+  },
+  fetchDocumentation: async () => 'docs',
+} as unknown as ToolContext;
+
+describe('resource and prompt redaction', () => {
+  it('masks API keys in edge function source read as a resource', async () => {
+    const { server, resources } = captureServer();
+    registerInsforgeResources(server, context);
+
+    const result = await resources.get('edge-function')!(new URL('insforge://functions/hello'), { slug: 'hello' });
+
+    expect(result.contents[0].text).toContain('ik_[REDACTED]');
+    expect(result.contents[0].text).not.toContain('ik_d02a35cfd8056c18e9e59b34bf8bf773');
+  });
+
+  it('masks API keys in the live context of prompts', async () => {
+    const { server, prompts } = captureServer();
+    registerInsforgePrompts(server, context, () => true);
+
+    const result = await prompts.get('debug-edge-function')!({ slug: 'hello' });
+    const text = result.messages[0].content.text;
+
+    expect(text).toContain('ik_[REDACTED]');
+    expect(text).not.toContain('ik_d02a35cfd8056c18e9e59b34bf8bf773');
+  });
+});
+
+describe('prompts', () => {
+  it('only name tools that are registered', async () => {
+    const registered = new Set(['update-function']);
+    const { server, prompts } = captureServer();
+    registerInsforgePrompts(server, context, (name) => registered.has(name));
+
+    const debug = await prompts.get('debug-edge-function')!({ slug: 'hello' });
+    expect(debug.messages[0].content.text).toContain('fix it with the update-function tool');
+
+    registered.clear();
+    const again = await prompts.get('debug-edge-function')!({ slug: 'hello' });
+    expect(again.messages[0].content.text).not.toContain('update-function');
+    expect(again.messages[0].content.text).toContain('show me the fixed source code');
+  });
+});
+
+describe('extractFunctions', () => {
+  it('reads both list shapes and ignores anything else', () => {
+    const hello = { slug: 'hello', name: 'Hello', description: null };
+    expect(extractFunctions([hello])).toEqual([hello]);
+    expect(extractFunctions({ functions: [hello], total: 1 })).toEqual([hello]);
+    expect(extractFunctions({ error: 'NOT_FOUND' })).toEqual([]);
+    expect(extractFunctions(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ListResourcesResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { AppMetadataSchema } from '@insforge/shared-schemas';
+import { ToolContext } from './tool-registry.js';
+import { getSecretRedactor } from './redaction.js';
+
+/**
+ * Resource URIs published by the server
+ */
+export const RESOURCE_URIS = {
+  metadata: 'insforge://metadata',
+  tables: 'insforge://tables/{tableName}',
+  buckets: 'insforge://buckets',
+  functions: 'insforge://functions/{slug}',
+} as const;
+
+/**
+ * Fetch a JSON document from the backend with the configured API key
+ */
+export async function fetchBackendJson<T = unknown>(context: ToolContext, path: string): Promise<T> {
+  return context.backend.request<T>(path);
+}
+
+/**
+ * Build a read result containing a single JSON document
+ * Secrets are masked the same way as in tool results, e.g. keys hard-coded in function source
+ */
+function jsonContents(uri: URL, data: unknown): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: getSecretRedactor().redact(JSON.stringify(data, null, 2)),
+      },
+    ],
+  };
+}
+
+/**
+ * Run a resource list callback, logging failures instead of failing the whole resources/list request
+ */
+async function listOrEmpty(name: string, list: () => Promise<ListResourcesResult>): Promise<ListResourcesResult> {
+  try {
+    return getSecretRedactor().redactValue(await list());
+  } catch (error) {
+    console.error(`Failed to list ${name} resources:`, error instanceof Error ? error.message : error);
+    return { resources: [] };
+  }
+}
+
+const functionSummarySchema = z.object({
+  slug: z.string(),
+  name: z.string().optional(),
+  description: z.string().nullable().optional(),
+}).passthrough();
+
+// Backends return either a bare array or { functions: [...] }
+const functionListSchema = z.union([
+  z.array(functionSummarySchema),
+  z.object({ functions: z.array(functionSummarySchema) }).transform((result) => result.functions),
+]);
+
+/**
+ * An edge function as listed by /api/functions
+ */
+export type FunctionSummary = z.infer<typeof functionSummarySchema>;
+
+/**
+ * Extract the edge function list from a /api/functions response
+ * @returns An empty list if the response has neither shape
+ */
+export function extractFunctions(result: unknown): FunctionSummary[] {
+  const parsed = functionListSchema.safeParse(result);
+  return parsed.success ? parsed.data : [];
+}
+
+/**
+ * Register Insforge resources and resource templates on an MCP server
+ * Resources are backed by the same /api/metadata and /api/functions endpoints as the tools
+ */
+export function registerInsforgeResources(server: McpServer, context: ToolContext): void {
+  const fetchMetadata = async (): Promise<AppMetadataSchema> =>
+    fetchBackendJson(context, '/api/metadata');
+
+  server.registerResource(
+    'backend-metadata',
+    RESOURCE_URIS.metadata,
+    {
+      title: 'Backend metadata',
+      description: 'Overview of the backend: auth configuration, tables, storage buckets and edge functions',
+      mimeType: 'application/json',
+    },
+    async (uri) => jsonContents(uri, await fetchMetadata())
+  );
+
+  server.registerResource(
+    'storage-buckets',
+    RESOURCE_URIS.buckets,
+    {
+      title: 'Storage buckets',
+      description: 'All storage buckets with their visibility',
+      mimeType: 'application/json',
+    },
+    async (uri) => {
+      const metadata = await fetchMetadata();
+      return jsonContents(uri, metadata.storage?.buckets ?? []);
+    }
+  );
+
+  server.registerResource(
+    'table-schema',
+    new ResourceTemplate(RESOURCE_URIS.tables, {
+      list: () => listOrEmpty('table', async () => {
+        const metadata = await fetchMetadata();
+        return {
+          resources: (metadata.database?.tables ?? []).map(({ tableName }) => ({
+            uri: `insforge://tables/${encodeURIComponent(tableName)}`,
+            name: tableName,
+            mimeType: 'application/json',
+          })),
+        };
+      }),
+      complete: {
+        tableName: async (value) => {
+          const metadata = await fetchMetadata();
+          return (metadata.database?.tables ?? [])
+            .map(({ tableName }) => tableName)
+            .filter((tableName) => tableName.startsWith(value));
+        },
+      },
+    }),
+    {
+      title: 'Table schema',
+      description: 'Detailed schema of a table including RLS, indexes and constraints',
+      mimeType: 'application/json',
+    },
+    async (uri, { tableName }) => {
+      const name = decodeURIComponent(String(tableName));
+      return jsonContents(uri, await fetchBackendJson(context, `/api/metadata/${encodeURIComponent(name)}`));
+    }
+  );
+
+  server.registerResource(
+    'edge-function',
+    new ResourceTemplate(RESOURCE_URIS.functions, {
+      list: () => listOrEmpty('edge function', async () => {
+        const functions = extractFunctions(await fetchBackendJson(context, '/api/functions'));
+        return {
+          resources: functions.map((fn) => ({
+            uri: `insforge://functions/${encodeURIComponent(fn.slug)}`,
+            name: fn.name || fn.slug,
+            description: fn.description ?? undefined,
+            mimeType: 'application/json',
+          })),
+        };
+      }),
+      complete: {
+        slug: async (value) => {
+          const functions = extractFunctions(await fetchBackendJson(context, '/api/functions'));
+          return functions.map((fn) => fn.slug).filter((slug) => slug.startsWith(value));
+        },
+      },
+    }),
+    {
+      title: 'Edge function',
+      description: 'Edge function details including its source code',
+      mimeType: 'application/json',
+    },
+    async (uri, { slug }) => {
+      const name = decodeURIComponent(String(slug));
+      return jsonContents(uri, await fetchBackendJson(context, `/api/functions/${encodeURIComponent(name)}`));
+    }
+  );
+}
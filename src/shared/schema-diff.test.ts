@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { LiveSchema, diffSchema, normalizeType, parseSchemaFile, quoteIdentifier } from './schema-diff.js';
+
+const SCHEMA = `
+-- Posts written by users
+CREATE TABLE posts (
+  id serial PRIMARY KEY,
+  -- shown in lists
+  title varchar(200) NOT NULL,
+  body text,
+  "authorId" uuid REFERENCES users (id) ON DELETE CASCADE,
+  CONSTRAINT title_not_blank CHECK (title <> '')
+);
+CREATE UNIQUE INDEX posts_title_idx ON posts (lower(title));
+ALTER TABLE posts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "read posts" ON public.posts FOR SELECT TO anon, authenticated USING (true);
+CREATE TABLE audit.events (id int);
+CREATE FUNCTION touch() RETURNS trigger AS $$ BEGIN RETURN NEW; END $$ LANGUAGE plpgsql;
+`;
+
+describe('parseSchemaFile', () => {
+  it('reads tables, indexes, policies and RLS from the public schema', () => {
+    const schema = parseSchemaFile(SCHEMA);
+
+    expect(schema.tables).toHaveLength(1);
+    expect(schema.tables[0].columns.map(({ name, type, nullable }) => ({ name, type, nullable }))).toEqual([
+      { name: 'id', type: 'serial', nullable: false },
+      { name: 'title', type: 'varchar(200)', nullable: false },
+      { name: 'body', type: 'text', nullable: true },
+      { name: 'authorId', type: 'uuid', nullable: true },
+    ]);
+    expect(schema.tables[0].columns[1].definition).toBe('title varchar(200) NOT NULL');
+    expect(schema.indexes).toEqual([
+      { name: 'posts_title_idx', table: 'posts', unique: true, key: '(lower(title))', statement: 'CREATE UNIQUE INDEX posts_title_idx ON posts (lower(title))' },
+    ]);
+    expect(schema.policies.map(({ name, table, command, roles }) => ({ name, table, command, roles }))).toEqual([
+      { name: 'read posts', table: 'posts', command: 'SELECT', roles: ['anon', 'authenticated'] },
+    ]);
+    expect(schema.rlsTables).toEqual(['posts']);
+    expect(schema.skipped).toEqual(['CREATE TABLE', 'CREATE FUNCTION']);
+  });
+
+  it('takes the primary key from a table constraint', () => {
+    const [table] = parseSchemaFile('CREATE TABLE t (a int, b int, PRIMARY KEY (a, b))').tables;
+    expect(table.columns.map((column) => column.nullable)).toEqual([false, false]);
+  });
+});
+
+describe('normalizeType', () => {
+  it('maps aliases and drops modifiers', () => {
+    expect(normalizeType('VARCHAR(200)')).toBe('character varying');
+    expect(normalizeType('int4')).toBe('integer');
+    expect(normalizeType('timestamptz')).toBe('timestamp with time zone');
+    expect(normalizeType('int[]')).toBe('integer[]');
+    expect(normalizeType('numeric(10, 2)')).toBe('numeric');
+  });
+});
+
+describe('quoteIdentifier', () => {
+  it('quotes names that are not plain lower case', () => {
+    expect(quoteIdentifier('posts')).toBe('posts');
+    expect(quoteIdentifier('authorId')).toBe('"authorId"');
+    expect(quoteIdentifier('a"b')).toBe('"a""b"');
+  });
+});
+
+describe('diffSchema', () => {
+  const declared = parseSchemaFile(SCHEMA);
+
+  it('reports nothing when the backend matches the file', () => {
+    const live: LiveSchema = {
+      columns: new Map([['posts', [
+        { columnName: 'id', type: 'integer', isNullable: false },
+        { columnName: 'title', type: 'character varying', isNullable: false },
+        { columnName: 'body', type: 'string', isNullable: true },
+        { columnName: 'authorId', type: 'uuid', isNullable: true },
+      ]]]),
+      indexes: [{ table: 'posts', name: 'posts_title_idx', definition: 'CREATE UNIQUE INDEX posts_title_idx ON public.posts USING btree (lower(title))' }],
+      policies: [{ table: 'posts', name: 'read posts', command: 'SELECT', roles: ['authenticated', 'anon'] }],
+      rlsTables: ['posts'],
+    };
+    expect(diffSchema(declared, live, ['posts', '_insforge_migrations'])).toEqual([]);
+  });
+
+  it('lists additions and changes, then drops of policies, indexes, columns and tables', () => {
+    const live: LiveSchema = {
+      columns: new Map([['posts', [
+        { columnName: 'id', type: 'integer', isNullable: false },
+        { columnName: 'title', type: 'text', isNullable: true },
+        { columnName: 'legacy', type: 'text', isNullable: true },
+      ]]]),
+      indexes: [{ table: 'posts', name: 'posts_old_idx', definition: 'CREATE INDEX posts_old_idx ON public.posts USING btree (legacy)' }],
+      policies: [{ table: 'posts', name: 'old', command: 'ALL', roles: ['public'] }],
+      rlsTables: [],
+    };
+
+    const differences = diffSchema(declared, live, ['posts', 'comments']);
+
+    expect(differences.map((difference) => [difference.kind, difference.name ?? difference.table])).toEqual([
+      ['column-type', 'title'],
+      ['column-nullability', 'title'],
+      ['missing-column', 'body'],
+      ['missing-column', 'authorId'],
+      ['missing-index', 'posts_title_idx'],
+      ['missing-policy', 'read posts'],
+      ['rls', 'posts'],
+      ['extra-policy', 'old'],
+      ['extra-index', 'posts_old_idx'],
+      ['extra-column', 'legacy'],
+      ['extra-table', 'comments'],
+    ]);
+    expect(differences.map((difference) => difference.statement)).toEqual([
+      'ALTER TABLE posts ALTER COLUMN title TYPE varchar(200) USING title::varchar(200);',
+      'ALTER TABLE posts ALTER COLUMN title SET NOT NULL;',
+      'ALTER TABLE posts ADD COLUMN body text;',
+      'ALTER TABLE posts ADD COLUMN "authorId" uuid REFERENCES users (id) ON DELETE CASCADE;',
+      'CREATE UNIQUE INDEX posts_title_idx ON posts (lower(title));',
+      'CREATE POLICY "read posts" ON public.posts FOR SELECT TO anon, authenticated USING (true);',
+      'ALTER TABLE posts ENABLE ROW LEVEL SECURITY;',
+      'DROP POLICY old ON posts;',
+      'DROP INDEX posts_old_idx;',
+      'ALTER TABLE posts DROP COLUMN legacy;',
+      'DROP TABLE comments;',
+    ]);
+  });
+
+  it('creates missing tables from their statement', () => {
+    const differences = diffSchema(parseSchemaFile('CREATE TABLE tags (name text);'), { columns: new Map(), indexes: [], policies: [], rlsTables: [] }, []);
+    expect(differences).toEqual([
+      { kind: 'missing-table', table: 'tags', detail: 'Table tags does not exist', statement: 'CREATE TABLE tags (name text);' },
+    ]);
+  });
+});
@@ -0,0 +1,613 @@
+import { maskSql, splitStatementText } from './sql-classifier.js';
+
+/**
+ * A column declared in a schema file
+ * - definition: The column's text in CREATE TABLE, reused for ADD COLUMN
+ */
+export interface DeclaredColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  definition: string;
+}
+
+export interface DeclaredTable {
+  name: string;
+  columns: DeclaredColumn[];
+  statement: string;
+}
+
+/**
+ * An index declared in a schema file; indexes are matched by table, uniqueness and key, not by name
+ */
+export interface DeclaredIndex {
+  name?: string;
+  table: string;
+  unique: boolean;
+  key: string;
+  statement: string;
+}
+
+export interface DeclaredPolicy {
+  name: string;
+  table: string;
+  command: string;
+  roles: string[];
+  statement: string;
+}
+
+/**
+ * The parts of a declarative schema file that are compared with the backend
+ * - skipped: Statements that are not compared, e.g. "CREATE FUNCTION"
+ */
+export interface DeclaredSchema {
+  tables: DeclaredTable[];
+  indexes: DeclaredIndex[];
+  policies: DeclaredPolicy[];
+  rlsTables: string[];
+  skipped: string[];
+}
+
+/**
+ * The live schema, from /api/metadata and the Postgres catalogs
+ * - columns: Keyed by table name; the type is as reported by /api/metadata/{table}
+ * - indexes: Indexes not backing a primary key, unique or exclusion constraint
+ */
+export interface LiveSchema {
+  columns: Map<string, { columnName: string; type: string; isNullable: boolean }[]>;
+  indexes: { table: string; name: string; definition: string }[];
+  policies: { table: string; name: string; command: string; roles: string[] }[];
+  rlsTables: string[];
+}
+
+/**
+ * Kinds of difference; "missing" is in the schema file but not the backend, "extra" the reverse
+ */
+export const SCHEMA_DIFFERENCE_KINDS = [
+  'missing-table',
+  'extra-table',
+  'missing-column',
+  'extra-column',
+  'column-type',
+  'column-nullability',
+  'missing-index',
+  'extra-index',
+  'missing-policy',
+  'extra-policy',
+  'changed-policy',
+  'rls',
+] as const;
+
+export type SchemaDifferenceKind = (typeof SCHEMA_DIFFERENCE_KINDS)[number];
+
+/**
+ * A difference and, where one exists, the statement making the backend match the file
+ */
+export interface SchemaDifference {
+  kind: SchemaDifferenceKind;
+  table: string;
+  name?: string;
+  detail: string;
+  statement?: string;
+}
+
+/**
+ * Lists the public indexes, RLS policies and RLS-enabled tables, as one row of JSON columns
+ */
+export const LIVE_SCHEMA_CATALOG_SQL = `SELECT
+  (SELECT coalesce(json_agg(json_build_object('table', t.relname, 'name', c.relname, 'definition', pg_get_indexdef(i.indexrelid))), '[]'::json)
+     FROM pg_index i
+     JOIN pg_class c ON c.oid = i.indexrelid
+     JOIN pg_class t ON t.oid = i.indrelid
+     JOIN pg_namespace n ON n.oid = t.relnamespace
+    WHERE n.nspname = 'public'
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_constraint k
+         WHERE k.conindid = i.indexrelid AND k.conrelid = i.indrelid AND k.contype IN ('p', 'u', 'x')
+      )) AS indexes,
+  (SELECT coalesce(json_agg(json_build_object('table', tablename, 'name', policyname, 'command', cmd, 'roles', roles)), '[]'::json)
+     FROM pg_policies
+    WHERE schemaname = 'public') AS policies,
+  (SELECT coalesce(json_agg(c.relname), '[]'::json)
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public' AND c.relkind IN ('r', 'p') AND c.relrowsecurity) AS "rlsTables"`;
+
+const IDENTIFIER = String.raw`(?:"(?:[^"]|"")+"|[A-Za-z_][\w$]*)`;
+const QUALIFIED_NAME = new RegExp(String.raw`^\s*(${IDENTIFIER})(?:\s*\.\s*(${IDENTIFIER}))?`);
+
+// Keywords ending the type in a column definition
+const COLUMN_CONSTRAINT = /\s(NOT\s+NULL|NULL|DEFAULT|PRIMARY\s+KEY|UNIQUE|REFERENCES|CHECK|CONSTRAINT|GENERATED|COLLATE)\b/;
+
+// Table elements of CREATE TABLE that are constraints rather than columns
+const TABLE_CONSTRAINT = /^(CONSTRAINT|PRIMARY\s+KEY|UNIQUE|FOREIGN\s+KEY|CHECK|EXCLUDE|LIKE)\b/;
+
+// Spellings of the same Postgres type, and the simplified types of the Insforge API
+const TYPE_ALIASES: Record<string, string> = {
+  int: 'integer',
+  int4: 'integer',
+  serial: 'integer',
+  serial4: 'integer',
+  int8: 'bigint',
+  bigserial: 'bigint',
+  serial8: 'bigint',
+  int2: 'smallint',
+  smallserial: 'smallint',
+  serial2: 'smallint',
+  float8: 'double precision',
+  float: 'double precision',
+  float4: 'real',
+  decimal: 'numeric',
+  bool: 'boolean',
+  varchar: 'character varying',
+  char: 'character',
+  bpchar: 'character',
+  timestamptz: 'timestamp with time zone',
+  timestamp: 'timestamp without time zone',
+  timetz: 'time with time zone',
+  time: 'time without time zone',
+  string: 'text',
+  datetime: 'timestamp with time zone',
+};
+
+// Types the API reports without the element or type name, so they cannot be compared
+const OPAQUE_TYPES = new Set(['array', 'user-defined']);
+
+/**
+ * Identifier as Postgres stores it: unquoted names are folded to lower case
+ */
+function unquoteIdentifier(identifier: string): string {
+  return identifier.startsWith('"') ? identifier.slice(1, -1).replace(/""/g, '"') : identifier.toLowerCase();
+}
+
+/**
+ * Quote an identifier for generated SQL when it is not a plain lower-case name
+ */
+export function quoteIdentifier(name: string): string {
+  return /^[a-z_][a-z0-9_$]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Read a possibly schema-qualified name at the start of a statement fragment
+ * @returns The name, its schema (public if unqualified) and the length read, or null
+ */
+function readName(text: string): { name: string; schema: string; length: number } | null {
+  const match = QUALIFIED_NAME.exec(text);
+  if (!match) {
+    return null;
+  }
+  return match[2]
+    ? { schema: unquoteIdentifier(match[1]), name: unquoteIdentifier(match[2]), length: match[0].length }
+    : { schema: 'public', name: unquoteIdentifier(match[1]), length: match[0].length };
+}
+
+/**
+ * Length of the whitespace and comments at the start of SQL
+ */
+function leadingTrivia(sql: string): number {
+  return /^(?:\s|--[^\n]*|\/\*[\s\S]*?\*\/)*/.exec(sql)![0].length;
+}
+
+/**
+ * Index of the parenthesis closing the one at `open`, in masked SQL
+ */
+function closingParen(masked: string, open: number): number {
+  let depth = 0;
+  for (let index = open; index < masked.length; index++) {
+    if (masked[index] === '(') {
+      depth++;
+    } else if (masked[index] === ')' && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split text on commas outside parentheses, quotes and comments
+ */
+function splitTopLevel(text: string): string[] {
+  const masked = maskSql(text);
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index <= masked.length; index++) {
+    const char = masked[index];
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if ((char === ',' && depth === 0) || index === masked.length) {
+      if (text.slice(start, index).trim()) {
+        parts.push(text.slice(start, index).trim());
+      }
+      start = index + 1;
+    }
+  }
+  return parts;
+}
+
+/**
+ * Compare-friendly form of a type: canonical name without length, precision or array brackets
+ */
+export function normalizeType(type: string): string {
+  const base = type.toLowerCase().replace(/\(.*?\)/g, '').replace(/\s+/g, ' ').trim();
+  const isArray = base.endsWith('[]');
+  const name = base.replace(/(\s*\[\])+$/, '');
+  const canonical = TYPE_ALIASES[name] ?? name;
+  return isArray ? `${canonical}[]` : canonical;
+}
+
+/**
+ * Compare-friendly form of an index key, e.g. "(lower(email), created_at DESC)"
+ */
+function normalizeIndexKey(key: string): string {
+  return key.replace(/"/g, '').replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * Key columns of an index definition: the first parenthesized list after the table name
+ */
+function indexKey(statement: string, afterTable: number): string | null {
+  const masked = maskSql(statement);
+  const open = masked.indexOf('(', afterTable);
+  const close = open >= 0 ? closingParen(masked, open) : -1;
+  return close >= 0 ? normalizeIndexKey(statement.slice(open, close + 1)) : null;
+}
+
+function parseTable(statement: string, masked: string, nameStart: number): DeclaredTable | null {
+  const table = readName(statement.slice(nameStart));
+  const open = masked.indexOf('(', nameStart);
+  const close = open >= 0 ? closingParen(masked, open) : -1;
+  if (!table || table.schema !== 'public' || close < 0) {
+    return null;
+  }
+
+  const elements = splitTopLevel(statement.slice(open + 1, close));
+  const primaryKey = new Set<string>();
+  const columns: DeclaredColumn[] = [];
+  for (const rawElement of elements) {
+    // Comments before a column are not part of its definition
+    const element = rawElement.slice(leadingTrivia(rawElement));
+    const upper = maskSql(element).toUpperCase();
+    if (TABLE_CONSTRAINT.test(upper)) {
+      const keyColumns = /PRIMARY\s+KEY\s*\(([^)]*)\)/.exec(upper);
+      if (keyColumns) {
+        const start = upper.indexOf('(', keyColumns.index);
+        element.slice(start + 1, upper.indexOf(')', start)).split(',').forEach((column) => primaryKey.add(unquoteIdentifier(column.trim())));
+      }
+      continue;
+    }
+
+    const column = readName(element);
+    if (!column) {
+      continue;
+    }
+    const rest = element.slice(column.length);
+    const constraint = COLUMN_CONSTRAINT.exec(` ${maskSql(rest).toUpperCase()}`);
+    const type = (constraint ? rest.slice(0, constraint.index) : rest).trim();
+    const constraints = constraint ? maskSql(rest).toUpperCase().slice(constraint.index) : '';
+    columns.push({
+      name: column.name,
+      type,
+      nullable: !/\b(NOT\s+NULL|PRIMARY\s+KEY)\b/.test(constraints) && !/^(SMALL|BIG)?SERIAL\d?$/i.test(type),
+      definition: element,
+    });
+  }
+
+  for (const column of columns) {
+    if (primaryKey.has(column.name)) {
+      column.nullable = false;
+    }
+  }
+  return { name: table.name, columns, statement };
+}
+
+function parseIndex(statement: string, masked: string, header: RegExpExecArray): DeclaredIndex | null {
+  let position = header[0].length;
+  const onMatch = /\bON(?:\s+ONLY)?\b/i.exec(masked.slice(position));
+  if (!onMatch) {
+    return null;
+  }
+
+  const name = onMatch.index > 0 ? readName(statement.slice(position, position + onMatch.index))?.name : undefined;
+  position += onMatch.index + onMatch[0].length;
+  const table = readName(statement.slice(position));
+  const key = table ? indexKey(statement, position + table.length) : null;
+  if (!table || table.schema !== 'public' || !key) {
+    return null;
+  }
+  return { name, table: table.name, unique: Boolean(header[1]), key, statement };
+}
+
+function parsePolicy(statement: string, masked: string, nameStart: number): DeclaredPolicy | null {
+  const name = readName(statement.slice(nameStart));
+  const onMatch = name ? /^\s*ON\b/i.exec(masked.slice(nameStart + name.length)) : null;
+  if (!name || !onMatch) {
+    return null;
+  }
+
+  const tableStart = nameStart + name.length + onMatch[0].length;
+  const table = readName(statement.slice(tableStart));
+  if (!table || table.schema !== 'public') {
+    return null;
+  }
+
+  const clausesStart = tableStart + table.length;
+  const clauses = masked.slice(clausesStart).toUpperCase();
+  const command = /\bFOR\s+(ALL|SELECT|INSERT|UPDATE|DELETE)\b/.exec(clauses)?.[1] ?? 'ALL';
+  const to = /\bTO\b/.exec(clauses);
+  let roles = ['public'];
+  if (to) {
+    const rolesStart = to.index + to[0].length;
+    const rolesEnd = clauses.slice(rolesStart).search(/\bUSING\b|\bWITH\s+CHECK\b/);
+    const rolesText = statement.slice(clausesStart + rolesStart, rolesEnd < 0 ? undefined : clausesStart + rolesStart + rolesEnd);
+    roles = splitTopLevel(rolesText).map(unquoteIdentifier);
+  }
+  return { name: name.name, table: table.name, command, roles: roles.sort(), statement };
+}
+
+/**
+ * Add a statement to the schema if it is one that is compared
+ * @param text - The statement without leading comments
+ * @param masked - The same, masked
+ * @returns false if the statement is skipped
+ */
+function addStatement(schema: DeclaredSchema, rls: Map<string, boolean>, text: string, masked: string): boolean {
+  const upper = masked.toUpperCase();
+
+  const table = /^CREATE\s+(?:UNLOGGED\s+)?TABLE(?:\s+IF\s+NOT\s+EXISTS)?\b/.exec(upper);
+  if (table) {
+    const parsed = parseTable(text, masked, table[0].length);
+    if (parsed) {
+      schema.tables.push(parsed);
+    }
+    return parsed !== null;
+  }
+
+  const index = /^CREATE\s+(UNIQUE\s+)?INDEX(?:\s+CONCURRENTLY)?(?:\s+IF\s+NOT\s+EXISTS)?\b/.exec(upper);
+  if (index) {
+    const parsed = parseIndex(text, masked, index);
+    if (parsed) {
+      schema.indexes.push(parsed);
+    }
+    return parsed !== null;
+  }
+
+  const policy = /^CREATE\s+POLICY\b/.exec(upper);
+  if (policy) {
+    const parsed = parsePolicy(text, masked, policy[0].length);
+    if (parsed) {
+      schema.policies.push(parsed);
+    }
+    return parsed !== null;
+  }
+
+  const alter = /^ALTER\s+TABLE(?:\s+IF\s+EXISTS)?(?:\s+ONLY)?\b/.exec(upper);
+  const rlsChange = /\b(ENABLE|DISABLE)\s+ROW\s+LEVEL\s+SECURITY\b/.exec(upper);
+  const name = alter && rlsChange ? readName(text.slice(alter[0].length)) : null;
+  if (rlsChange && name?.schema === 'public') {
+    rls.set(name.name, rlsChange[1] === 'ENABLE');
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Parse the CREATE TABLE, CREATE INDEX, CREATE POLICY and ALTER TABLE ... ROW LEVEL SECURITY
+ * statements of a declarative schema file; objects outside the public schema are skipped
+ */
+export function parseSchemaFile(sql: string): DeclaredSchema {
+  const schema: DeclaredSchema = { tables: [], indexes: [], policies: [], rlsTables: [], skipped: [] };
+  const rls = new Map<string, boolean>();
+
+  for (const statement of splitStatementText(sql)) {
+    const text = statement.slice(leadingTrivia(statement));
+    const masked = maskSql(text);
+    if (!addStatement(schema, rls, text, masked)) {
+      schema.skipped.push(masked.toUpperCase().match(/^[A-Z]+(\s+[A-Z]+)?/)?.[0] ?? 'UNKNOWN');
+    }
+  }
+
+  schema.rlsTables = [...rls].filter(([, enabled]) => enabled).map(([name]) => name);
+  return schema;
+}
+
+/**
+ * Tables internal to Insforge and to tools like the migration tracker, which are never extra
+ */
+export function isInternalTable(name: string): boolean {
+  return name.startsWith('_');
+}
+
+function diffColumns(table: DeclaredTable, live: { columnName: string; type: string; isNullable: boolean }[]): SchemaDifference[] {
+  const differences: SchemaDifference[] = [];
+  const tableName = quoteIdentifier(table.name);
+  const liveColumns = new Map(live.map((column) => [column.columnName, column]));
+
+  for (const column of table.columns) {
+    const current = liveColumns.get(column.name);
+    const columnName = quoteIdentifier(column.name);
+    if (!current) {
+      differences.push({
+        kind: 'missing-column',
+        table: table.name,
+        name: column.name,
+        detail: `Column ${table.name}.${column.name} (${column.type}) does not exist`,
+        statement: `ALTER TABLE ${tableName} ADD COLUMN ${column.definition};`,
+      });
+      continue;
+    }
+
+    const declaredType = normalizeType(column.type);
+    const liveType = normalizeType(current.type);
+    if (!OPAQUE_TYPES.has(liveType) && declaredType !== liveType) {
+      const type = column.type.replace(/^(small|big)?serial\d?$/i, (serial) => normalizeType(serial));
+      differences.push({
+        kind: 'column-type',
+        table: table.name,
+        name: column.name,
+        detail: `Column ${table.name}.${column.name} is ${current.type}, the schema file says ${column.type}`,
+        statement: `ALTER TABLE ${tableName} ALTER COLUMN ${columnName} TYPE ${type} USING ${columnName}::${type};`,
+      });
+    }
+    if (column.nullable !== current.isNullable) {
+      differences.push({
+        kind: 'column-nullability',
+        table: table.name,
+        name: column.name,
+        detail: `Column ${table.name}.${column.name} is ${current.isNullable ? 'nullable' : 'NOT NULL'}, the schema file says ${column.nullable ? 'nullable' : 'NOT NULL'}`,
+        statement: `ALTER TABLE ${tableName} ALTER COLUMN ${columnName} ${column.nullable ? 'DROP' : 'SET'} NOT NULL;`,
+      });
+    }
+  }
+
+  const declared = new Set(table.columns.map((column) => column.name));
+  for (const column of live) {
+    if (!declared.has(column.columnName)) {
+      differences.push({
+        kind: 'extra-column',
+        table: table.name,
+        name: column.columnName,
+        detail: `Column ${table.name}.${column.columnName} (${column.type}) is not in the schema file`,
+        statement: `ALTER TABLE ${tableName} DROP COLUMN ${quoteIdentifier(column.columnName)};`,
+      });
+    }
+  }
+  return differences;
+}
+
+/**
+ * Compare a parsed schema file with the live schema
+ * Differences are ordered so their statements can run in sequence: creates, additions and
+ * changes first, then drops of policies, indexes, columns and tables, so nothing is dropped
+ * while something declared still depends on it
+ */
+export function diffSchema(declared: DeclaredSchema, live: LiveSchema, liveTables: string[]): SchemaDifference[] {
+  const differences: SchemaDifference[] = [];
+  const columnDrops: SchemaDifference[] = [];
+  const existing = new Set(liveTables);
+  const declaredTables = new Set(declared.tables.map((table) => table.name));
+
+  for (const table of declared.tables) {
+    if (!existing.has(table.name)) {
+      differences.push({
+        kind: 'missing-table',
+        table: table.name,
+        detail: `Table ${table.name} does not exist`,
+        statement: `${table.statement.trim()};`,
+      });
+    } else {
+      for (const difference of diffColumns(table, live.columns.get(table.name) ?? [])) {
+        (difference.kind === 'extra-column' ? columnDrops : differences).push(difference);
+      }
+    }
+  }
+
+  const liveIndexes = live.indexes.map((index) => ({
+    ...index,
+    unique: /^CREATE\s+UNIQUE\b/i.test(index.definition),
+    key: indexKey(index.definition, index.definition.search(/\sON\s/i) + 4) ?? '',
+  }));
+  const indexId = (index: { table: string; unique: boolean; key: string }) => `${index.table}\0${index.unique}\0${index.key}`;
+  const liveIndexIds = new Set(liveIndexes.map(indexId));
+  for (const index of declared.indexes) {
+    if (!liveIndexIds.has(indexId(index))) {
+      differences.push({
+        kind: 'missing-index',
+        table: index.table,
+        name: index.name,
+        detail: `${index.unique ? 'Unique index' : 'Index'} ${index.name ? `${index.name} ` : ''}on ${index.table} ${index.key} does not exist`,
+        statement: `${index.statement.trim()};`,
+      });
+    }
+  }
+
+  const livePolicies = new Map(live.policies.map((policy) => [`${policy.table}\0${policy.name}`, policy]));
+  for (const policy of declared.policies) {
+    const current = livePolicies.get(`${policy.table}\0${policy.name}`);
+    if (!current) {
+      differences.push({
+        kind: 'missing-policy',
+        table: policy.table,
+        name: policy.name,
+        detail: `Policy "${policy.name}" on ${policy.table} does not exist`,
+        statement: `${policy.statement.trim()};`,
+      });
+    } else if (current.command !== policy.command || [...current.roles].sort().join(',') !== policy.roles.join(',')) {
+      differences.push({
+        kind: 'changed-policy',
+        table: policy.table,
+        name: policy.name,
+        detail: `Policy "${policy.name}" on ${policy.table} is FOR ${current.command} TO ${current.roles.join(', ')}, the schema file says FOR ${policy.command} TO ${policy.roles.join(', ')}`,
+        statement: `DROP POLICY ${quoteIdentifier(policy.name)} ON ${quoteIdentifier(policy.table)};\n${policy.statement.trim()};`,
+      });
+    }
+  }
+
+  const liveRls = new Set(live.rlsTables);
+  for (const table of declared.rlsTables) {
+    if (!liveRls.has(table)) {
+      differences.push({
+        kind: 'rls',
+        table,
+        detail: `Row level security is disabled on ${table}, the schema file enables it`,
+        statement: `ALTER TABLE ${quoteIdentifier(table)} ENABLE ROW LEVEL SECURITY;`,
+      });
+    }
+  }
+  const declaredRls = new Set(declared.rlsTables);
+  for (const table of live.rlsTables) {
+    if (declaredTables.has(table) && !declaredRls.has(table)) {
+      differences.push({
+        kind: 'rls',
+        table,
+        detail: `Row level security is enabled on ${table}, the schema file does not enable it`,
+        statement: `ALTER TABLE ${quoteIdentifier(table)} DISABLE ROW LEVEL SECURITY;`,
+      });
+    }
+  }
+
+  // Drops last; objects of tables that are extra go with the table
+  const declaredPolicies = new Set(declared.policies.map((policy) => `${policy.table}\0${policy.name}`));
+  for (const policy of live.policies) {
+    if (declaredTables.has(policy.table) && !declaredPolicies.has(`${policy.table}\0${policy.name}`)) {
+      differences.push({
+        kind: 'extra-policy',
+        table: policy.table,
+        name: policy.name,
+        detail: `Policy "${policy.name}" on ${policy.table} is not in the schema file`,
+        statement: `DROP POLICY ${quoteIdentifier(policy.name)} ON ${quoteIdentifier(policy.table)};`,
+      });
+    }
+  }
+
+  const declaredIndexIds = new Set(declared.indexes.map(indexId));
+  for (const index of liveIndexes) {
+    if (declaredTables.has(index.table) && !declaredIndexIds.has(indexId(index))) {
+      differences.push({
+        kind: 'extra-index',
+        table: index.table,
+        name: index.name,
+        detail: `Index ${index.name} on ${index.table} is not in the schema file`,
+        statement: `DROP INDEX ${quoteIdentifier(index.name)};`,
+      });
+    }
+  }
+
+  // After the index drops, since dropping a column also drops the indexes on it
+  differences.push(...columnDrops);
+
+  for (const table of liveTables) {
+    if (!declaredTables.has(table) && !isInternalTable(table)) {
+      differences.push({
+        kind: 'extra-table',
+        table,
+        detail: `Table ${table} is not in the schema file`,
+        statement: `DROP TABLE ${quoteIdentifier(table)};`,
+      });
+    }
+  }
+
+  return differences;
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifySql,
+  inlineSqlParams,
+  isReadOnlySql,
+  maskSql,
+  splitStatementText,
+  splitStatements,
+} from './sql-classifier.js';
+
+function categoryOf(sql: string) {
+  return classifySql(sql).category;
+}
+
+describe('classifySql', () => {
+  it('classifies reads, writes and DDL', () => {
+    expect(categoryOf('SELECT * FROM posts')).toBe('read');
+    expect(categoryOf('WITH recent AS (SELECT 1) SELECT * FROM recent')).toBe('read');
+    expect(categoryOf("INSERT INTO posts (title) VALUES ('a')")).toBe('write');
+    expect(categoryOf('UPDATE posts SET title = 1 WHERE id = 2')).toBe('write');
+    expect(categoryOf('CREATE TABLE t (id int)')).toBe('ddl');
+    expect(categoryOf('ALTER TABLE t ALTER COLUMN a DROP NOT NULL')).toBe('ddl');
+  });
+
+  it('flags drops, truncates and unqualified deletes and updates as dangerous', () => {
+    expect(classifySql('DROP TABLE posts').statements[0]).toEqual({
+      category: 'dangerous',
+      keyword: 'DROP',
+      reason: 'DROP removes the object and everything in it',
+    });
+    expect(categoryOf('TRUNCATE posts')).toBe('dangerous');
+    expect(categoryOf('ALTER TABLE posts DROP COLUMN title')).toBe('dangerous');
+    expect(categoryOf('DELETE FROM posts')).toBe('dangerous');
+    expect(categoryOf('DELETE FROM posts WHERE true')).toBe('dangerous');
+    expect(categoryOf('UPDATE posts SET a = 1 WHERE 1 = 1 RETURNING id')).toBe('dangerous');
+    expect(categoryOf('WITH d AS (DELETE FROM posts RETURNING id) SELECT count(*) FROM d')).toBe('dangerous');
+  });
+
+  it('flags statements that run or define unchecked code as dangerous', () => {
+    expect(classifySql('DO $$ BEGIN DROP TABLE users; END $$').statements[0]).toEqual({
+      category: 'dangerous',
+      keyword: 'DO',
+      reason: 'DO runs a code block whose statements are not checked',
+    });
+    expect(classifySql('PREPARE p AS DELETE FROM users WHERE id = $1; EXECUTE p(1)').statements.map((statement) => statement.category)).toEqual([
+      'dangerous',
+      'dangerous',
+    ]);
+    expect(categoryOf('CALL cleanup()')).toBe('dangerous');
+    expect(categoryOf('CREATE OR REPLACE FUNCTION f() RETURNS void AS $fn$ DELETE FROM users $fn$ LANGUAGE sql')).toBe('dangerous');
+    expect(categoryOf('CREATE PROCEDURE p() LANGUAGE plpgsql AS $$ BEGIN TRUNCATE users; END $$')).toBe('dangerous');
+    expect(categoryOf('CREATE TRIGGER t BEFORE UPDATE ON posts FOR EACH ROW EXECUTE FUNCTION touch()')).toBe('ddl');
+  });
+
+  it('only accepts a WHERE clause of the statement itself', () => {
+    expect(classifySql('UPDATE t SET a = (SELECT b FROM u WHERE u.id = 1)').statements[0]).toEqual({
+      category: 'dangerous',
+      keyword: 'UPDATE',
+      reason: 'UPDATE without a WHERE clause affects every row',
+    });
+    expect(categoryOf('DELETE FROM t USING (SELECT id FROM u WHERE u.x) s')).toBe('dangerous');
+    expect(categoryOf('WITH d AS (DELETE FROM t) SELECT * FROM u WHERE u.id = 1')).toBe('dangerous');
+    expect(categoryOf('UPDATE t SET a = (SELECT b FROM u WHERE u.id = t.id) WHERE t.id IN (1, 2)')).toBe('write');
+    expect(categoryOf('WITH d AS (DELETE FROM t WHERE id = 1 RETURNING id) SELECT * FROM d')).toBe('write');
+    expect(categoryOf('UPDATE t SET updated_at = now() FROM u WHERE u.id = t.id')).toBe('write');
+  });
+
+  it('ignores keywords in comments, strings and quoted identifiers', () => {
+    expect(categoryOf("SELECT 'DROP TABLE x; DELETE FROM y' AS sql -- DROP")).toBe('read');
+    expect(categoryOf("SELECT E'it\\'s; DROP TABLE users' AS x")).toBe('read');
+    expect(categoryOf('SELECT "delete" FROM t')).toBe('read');
+    expect(categoryOf("DELETE FROM t WHERE a = E'\\' WHERE'")).toBe('write');
+    expect(categoryOf("UPDATE t SET a = E'x\\' WHERE id = 1 --'")).toBe('dangerous');
+  });
+
+  it('does not treat ON DELETE, FOR UPDATE or DO UPDATE as row changes', () => {
+    expect(categoryOf('CREATE TABLE t (u uuid REFERENCES users ON DELETE CASCADE)')).toBe('ddl');
+    expect(categoryOf('SELECT * FROM t FOR UPDATE')).toBe('write');
+    expect(categoryOf('INSERT INTO t (id) VALUES (1) ON CONFLICT (id) DO UPDATE SET a = 1')).toBe('write');
+  });
+
+  it('takes the riskiest statement of a multi-statement query', () => {
+    const classification = classifySql('SELECT 1; UPDATE t SET a = 1 WHERE id = 1; DROP VIEW v');
+    expect(classification.category).toBe('dangerous');
+    expect(classification.statements.map((statement) => statement.keyword)).toEqual(['SELECT', 'UPDATE', 'DROP']);
+  });
+});
+
+describe('isReadOnlySql', () => {
+  it('accepts plain reads only', () => {
+    expect(isReadOnlySql('SELECT * FROM posts; SHOW search_path')).toBe(true);
+    expect(isReadOnlySql('SELECT * INTO copy FROM posts')).toBe(false);
+    expect(isReadOnlySql('WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d')).toBe(false);
+    expect(isReadOnlySql('')).toBe(false);
+  });
+
+  it('rejects reads that call functions with side effects', () => {
+    expect(isReadOnlySql('SELECT pg_terminate_backend(pid) FROM pg_stat_activity')).toBe(false);
+    expect(isReadOnlySql("SELECT nextval('posts_id_seq')")).toBe(false);
+    expect(isReadOnlySql("SELECT setval('posts_id_seq', 1)")).toBe(false);
+    expect(isReadOnlySql("SELECT set_config('role', 'admin', false)")).toBe(false);
+    expect(isReadOnlySql('SELECT pg_advisory_lock(1)')).toBe(false);
+    expect(isReadOnlySql("SELECT lo_unlink(16401)")).toBe(false);
+    expect(categoryOf("SELECT nextval('posts_id_seq')")).toBe('write');
+  });
+
+  it('allows function names inside strings and ordinary functions', () => {
+    expect(isReadOnlySql("SELECT 'nextval(1)', count(*), now() FROM posts")).toBe(true);
+  });
+});
+
+describe('maskSql', () => {
+  it('keeps the length of the SQL', () => {
+    const sql = "SELECT E'a\\'b', 'c''d', \"e\", $$f$$ -- g\n/* h */";
+    expect(maskSql(sql)).toHaveLength(sql.length);
+    expect(maskSql(sql).trim()).toBe('SELECT        ,       ,    ,');
+  });
+});
+
+describe('splitStatements', () => {
+  it('splits on semicolons outside strings and comments', () => {
+    expect(splitStatements("SELECT ';'; -- ;\nSELECT 2;")).toHaveLength(2);
+  });
+
+  it('does not split inside dollar-quoted bodies, including tags with digits', () => {
+    const sql = 'CREATE FUNCTION f() RETURNS void AS $fn1$ BEGIN DELETE FROM t; END $fn1$ LANGUAGE plpgsql; SELECT $$a;b$$';
+    expect(splitStatements(sql)).toHaveLength(2);
+    expect(splitStatementText(sql)[0]).toBe('CREATE FUNCTION f() RETURNS void AS $fn1$ BEGIN DELETE FROM t; END $fn1$ LANGUAGE plpgsql');
+  });
+});
+
+describe('splitStatementText', () => {
+  it('returns the original text without surrounding comments and semicolons', () => {
+    expect(splitStatementText("-- lead\nSELECT 'a;b' -- tail\n; /* x */ SELECT 2; -- c")).toEqual(["SELECT 'a;b'", 'SELECT 2']);
+  });
+
+  it('keeps string literals at the end of a statement', () => {
+    expect(splitStatementText("SELECT 'x';")).toEqual(["SELECT 'x'"]);
+  });
+});
+
+describe('inlineSqlParams', () => {
+  it('inlines parameters as literals', () => {
+    expect(inlineSqlParams('SELECT $1, $2, $3, $4', ["it's", 2, null, { a: 1 }])).toBe(`SELECT 'it''s', 2, NULL, '{"a":1}'`);
+  });
+
+  it('parenthesizes negative numbers', () => {
+    expect(inlineSqlParams('SELECT 10-$1', [-5])).toBe('SELECT 10-(-5)');
+  });
+
+  it('inlines arrays as array literals', () => {
+    expect(inlineSqlParams('SELECT * FROM t WHERE id = ANY($1)', [[1, 2]])).toBe(`SELECT * FROM t WHERE id = ANY('{"1","2"}')`);
+    expect(inlineSqlParams('SELECT $1::text[][]', [[['a"b', "c'd"], ['e\\f', null]]])).toBe(
+      `SELECT '{{"a\\"b","c''d"},{"e\\\\f",NULL}}'::text[][]`
+    );
+  });
+
+  it('leaves placeholders in strings and comments alone', () => {
+    expect(inlineSqlParams("SELECT '$1', $1 -- $2", ['x'])).toBe("SELECT '$1', 'x' -- $2");
+  });
+
+  it('fails on missing parameters', () => {
+    expect(() => inlineSqlParams('SELECT $2', ['x'])).toThrow('Parameter $2 has no value (1 given)');
+  });
+});
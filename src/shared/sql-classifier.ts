@@ -0,0 +1,308 @@
+/**
+ * Lightweight SQL statement inspection used to guard run-raw-sql and the other SQL tools
+ *
+ * This is not a full parser: comments and quoted literals are masked out and each
+ * statement is classified from its leading keywords.
+ */
+
+import { randomBytes } from 'crypto';
+
+// Statements that only read data
+const READ_KEYWORDS = new Set(['SELECT', 'WITH', 'SHOW', 'EXPLAIN', 'VALUES', 'TABLE']);
+
+// Keywords that modify data or schema when they appear anywhere in a read statement
+// (data-modifying CTEs, SELECT ... INTO, EXPLAIN ANALYZE of a write)
+const WRITE_KEYWORDS = /\b(INSERT|UPDATE|DELETE|MERGE|INTO|CREATE|ALTER|DROP|TRUNCATE|GRANT|REVOKE|COPY|CALL|DO)\b/;
+
+// Built-in functions with side effects, which make a SELECT calling them more than a read
+// (sequences, settings, signalling other sessions, locks, large objects, replication slots, dblink)
+const SIDE_EFFECT_FUNCTIONS =
+  /\b(NEXTVAL|SETVAL|SET_CONFIG|PG_TERMINATE_BACKEND|PG_CANCEL_BACKEND|PG_RELOAD_CONF|PG_ROTATE_LOGFILE|PG_SWITCH_WAL|PG_PROMOTE|PG_NOTIFY|PG_(?:TRY_)?ADVISORY_\w+|PG_STAT_RESET\w*|PG_(?:CREATE|DROP)_\w+|PG_REPLICATION_\w+|PG_LOGICAL_SLOT_\w+|PG_FILE_\w+|LO_\w+|DBLINK\w*)\s*\(/;
+
+// Statements that change the schema or permissions
+const DDL_KEYWORDS = new Set(['CREATE', 'ALTER', 'COMMENT', 'GRANT', 'REVOKE', 'DROP', 'TRUNCATE']);
+
+// DELETE and UPDATE statements, including inside CTEs; excludes ON DELETE, FOR UPDATE, DO UPDATE
+const DELETE_OR_UPDATE = /(?<!\bON\s+)\bDELETE\b|(?<!\b(?:FOR|DO|KEY)\s+)\bUPDATE\b/;
+
+// Conditions that match every row anyway
+const TRIVIAL_CONDITION = /^\s*(?:TRUE|1\s*=\s*1)\s*(?:RETURNING\b|$)/;
+
+// ALTER ... DROP of a column, constraint or similar; DROP NOT NULL/DEFAULT/IDENTITY/EXPRESSION lose no data
+const ALTER_DROP = /\bDROP\s+(?!NOT\s+NULL\b|DEFAULT\b|IDENTITY\b|EXPRESSION\b)/;
+
+// Statements that run or define code the classifier cannot see into, with why they need confirmation
+const OPAQUE_STATEMENTS: Record<string, string> = {
+  DO: 'DO runs a code block whose statements are not checked',
+  EXECUTE: 'EXECUTE runs a prepared statement that is not checked',
+  PREPARE: 'PREPARE stores a statement that EXECUTE runs later without checks',
+  CALL: 'CALL runs a procedure whose statements are not checked',
+  'CREATE FUNCTION': 'CREATE FUNCTION defines code whose statements are not checked',
+  'CREATE PROCEDURE': 'CREATE PROCEDURE defines code whose statements are not checked',
+};
+
+const OPAQUE_STATEMENT = /^\(*\s*(DO|EXECUTE|PREPARE|CALL|CREATE (?:OR REPLACE )?(?:FUNCTION|PROCEDURE))\b/;
+
+/**
+ * Statement categories, from least to most risky
+ * - read: Only reads data
+ * - write: Inserts or modifies rows
+ * - ddl: Changes the schema or permissions
+ * - dangerous: Drops objects or columns, truncates, deletes/updates every row, or runs code that cannot be checked
+ */
+export const SQL_CATEGORIES = ['read', 'write', 'ddl', 'dangerous'] as const;
+
+export type SqlCategory = (typeof SQL_CATEGORIES)[number];
+
+/**
+ * Classification of a single statement
+ * - keyword: Leading keyword, e.g. "DELETE"
+ * - reason: Why a dangerous statement is dangerous
+ */
+export interface SqlStatementClassification {
+  category: SqlCategory;
+  keyword: string;
+  reason?: string;
+}
+
+/**
+ * Classification of a query; its category is that of its riskiest statement
+ */
+export interface SqlClassification {
+  category: SqlCategory;
+  statements: SqlStatementClassification[];
+}
+
+// Comments, escape strings (E'...'), string literals, dollar-quoted bodies and quoted identifiers
+const MASKED_TOKENS =
+  /--[^\n]*|\/\*[\s\S]*?\*\/|(?<![\w$])[Ee]'(?:\\[\s\S]|''|[^'\\])*'|'(?:[^']|'')*'|"(?:[^"]|"")*"|\$([A-Za-z_][A-Za-z0-9_]*)?\$[\s\S]*?\$\1\$/g;
+
+/**
+ * Replace comments, string literals, dollar-quoted bodies and quoted identifiers with spaces
+ */
+export function maskSql(sql: string): string {
+  return sql.replace(MASKED_TOKENS, (match) => ' '.repeat(match.length));
+}
+
+/**
+ * Render an array as a Postgres array literal, e.g. {"1","a b",NULL}
+ * This is the text node-postgres sends for a bound array parameter
+ */
+function arrayLiteral(values: unknown[]): string {
+  const elements = values.map((value) => {
+    if (value === null || value === undefined) {
+      return 'NULL';
+    }
+    if (Array.isArray(value)) {
+      return arrayLiteral(value);
+    }
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return `"${text.replace(/[\\"]/g, '\\$&')}"`;
+  });
+  return `{${elements.join(',')}}`;
+}
+
+/**
+ * Render a parameter as a SQL literal
+ * Arrays become untyped array literals, so the surrounding SQL decides their type as it does for
+ * bound parameters; negative numbers are parenthesized so `10-$1` cannot turn into a comment
+ */
+function sqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+  if (typeof value === 'number') {
+    return value < 0 ? `(${value})` : String(value);
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  const text = Array.isArray(value) ? arrayLiteral(value) : typeof value === 'string' ? value : JSON.stringify(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Replace $1, $2, ... placeholders with literals, for SQL that runs where parameters cannot be bound
+ * Placeholders inside comments and quoted strings are left alone
+ */
+export function inlineSqlParams(query: string, params: unknown[]): string {
+  const masked = maskSql(query);
+  let result = '';
+  let last = 0;
+
+  for (const match of masked.matchAll(/\$(\d+)\b/g)) {
+    const index = Number(match[1]) - 1;
+    if (index < 0 || index >= params.length) {
+      throw new Error(`Parameter ${match[0]} has no value (${params.length} given)`);
+    }
+    result += query.slice(last, match.index) + sqlLiteral(params[index]);
+    last = match.index! + match[0].length;
+  }
+
+  return result + query.slice(last);
+}
+
+/**
+ * Name for dollar-quote tags around the given SQL, e.g. "insforge_3f9a1c2b7d4e" for $insforge_3f9a1c2b7d4e_tx$
+ *
+ * The name is random and occurs in none of the bodies, so text inside them (including inlined
+ * parameters) cannot close a tag built from it.
+ */
+export function dollarQuoteName(bodies: string[]): string {
+  for (;;) {
+    const name = `insforge_${randomBytes(6).toString('hex')}`;
+    if (!bodies.some((body) => body.includes(name))) {
+      return name;
+    }
+  }
+}
+
+/**
+ * Split a (masked) SQL string into non-empty statements
+ */
+export function splitStatements(sql: string): string[] {
+  return maskSql(sql)
+    .split(';')
+    .map((statement) => statement.trim())
+    .filter((statement) => statement.length > 0);
+}
+
+/**
+ * Split SQL into the original text of its non-empty statements, without the separating semicolons
+ * and without comments before or after each statement
+ */
+export function splitStatementText(sql: string): string[] {
+  // Like maskSql, but literals stay non-blank so only comments are trimmed
+  const masked = sql.replace(MASKED_TOKENS, (match) => (/^(--|\/\*)/.test(match) ? ' ' : '_').repeat(match.length));
+  const statements: string[] = [];
+  let start = 0;
+
+  for (let index = 0; index <= masked.length; index++) {
+    if (index === masked.length || masked[index] === ';') {
+      const statement = masked.slice(start, index);
+      const leading = statement.length - statement.trimStart().length;
+      const trailing = statement.length - statement.trimEnd().length;
+      if (statement.trim().length > 0) {
+        statements.push(sql.slice(start + leading, index - trailing));
+      }
+      start = index + 1;
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * Leading keyword of an upper-cased masked statement
+ */
+function leadingKeyword(upper: string): string | undefined {
+  return upper.match(/^\(*\s*([A-Z]+)/)?.[1];
+}
+
+/**
+ * Check whether a single masked statement only reads data
+ */
+function isReadStatement(statement: string): boolean {
+  const upper = statement.toUpperCase();
+  const keyword = leadingKeyword(upper);
+
+  if (!keyword || !READ_KEYWORDS.has(keyword)) {
+    return false;
+  }
+
+  return !WRITE_KEYWORDS.test(upper) && !SIDE_EFFECT_FUNCTIONS.test(upper);
+}
+
+/**
+ * Condition of the WHERE clause belonging to the DELETE or UPDATE at an index of a masked statement
+ * Only a WHERE at the statement's own parenthesis depth counts, not one inside a subquery
+ * @returns null if the statement has no WHERE clause of its own
+ */
+function ownWhereCondition(upper: string, start: number): string | null {
+  let depth = 0;
+  let where = -1;
+  let index = start;
+  for (; index < upper.length; index++) {
+    const char = upper[index];
+    if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth < 0) {
+      // The DELETE or UPDATE ends with the CTE or subquery around it
+      break;
+    } else if (where === -1 && depth === 0 && /^WHERE\b/.test(upper.slice(index, index + 6)) && !/[\w$]/.test(upper[index - 1])) {
+      where = index;
+    }
+  }
+  return where === -1 ? null : upper.slice(where + 'WHERE'.length, index);
+}
+
+/**
+ * Why a masked statement is dangerous, or null if it is not
+ */
+function dangerReason(upper: string, keyword: string): string | null {
+  const opaque = upper.match(OPAQUE_STATEMENT)?.[1];
+  if (opaque) {
+    return OPAQUE_STATEMENTS[opaque.replace(' OR REPLACE', '')];
+  }
+  if (keyword === 'DROP') {
+    return 'DROP removes the object and everything in it';
+  }
+  if (keyword === 'TRUNCATE') {
+    return 'TRUNCATE deletes every row';
+  }
+  if (keyword === 'ALTER' && ALTER_DROP.test(upper)) {
+    return 'ALTER ... DROP removes a column, constraint or other part of the object';
+  }
+  if (['DELETE', 'UPDATE', 'WITH'].includes(keyword)) {
+    for (const match of upper.matchAll(new RegExp(DELETE_OR_UPDATE, 'g'))) {
+      const condition = ownWhereCondition(upper, match.index!);
+      if (condition === null || TRIVIAL_CONDITION.test(condition)) {
+        return `${match[0]} without a WHERE clause affects every row`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Classify a single masked statement
+ * Statements that are not recognisable reads default to writes
+ */
+function classifyStatement(statement: string): SqlStatementClassification {
+  const upper = statement.toUpperCase().replace(/\s+/g, ' ');
+  const keyword = leadingKeyword(upper) ?? 'UNKNOWN';
+
+  if (isReadStatement(statement)) {
+    return { category: 'read', keyword };
+  }
+
+  const reason = dangerReason(upper, keyword);
+  if (reason) {
+    return { category: 'dangerous', keyword, reason };
+  }
+
+  return { category: DDL_KEYWORDS.has(keyword) ? 'ddl' : 'write', keyword };
+}
+
+/**
+ * Classify every statement in a query as read, write, DDL or dangerous
+ */
+export function classifySql(sql: string): SqlClassification {
+  const statements = splitStatements(sql).map(classifyStatement);
+  const category = statements.reduce<SqlCategory>(
+    (riskiest, statement) =>
+      SQL_CATEGORIES.indexOf(statement.category) > SQL_CATEGORIES.indexOf(riskiest) ? statement.category : riskiest,
+    'read'
+  );
+
+  return { category, statements };
+}
+
+/**
+ * Check whether every statement in a query only reads data
+ * Unknown or ambiguous statements are treated as writes
+ */
+export function isReadOnlySql(sql: string): boolean {
+  const statements = splitStatements(sql);
+  return statements.length > 0 && statements.every(isReadStatement);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { formatSqlResult } from './sql-result-format.js';
+
+const result = {
+  rows: [
+    { id: 1, title: 'hello', tags: ['a', 'b'] },
+    { id: 20, title: 'a | b, "quoted"\nsecond line', tags: null },
+  ],
+  rowCount: 2,
+  fields: [
+    { name: 'id', dataTypeID: 23 },
+    { name: 'title', dataTypeID: 25 },
+    { name: 'tags', dataTypeID: 1009 },
+  ],
+};
+
+describe('formatSqlResult', () => {
+  it('renders a markdown table with numeric columns right-aligned', () => {
+    expect(formatSqlResult(result, 'markdown')).toBe(
+      [
+        '2 rows; columns: id int4, title text, tags text[]',
+        '',
+        '|  id | title                        | tags      |',
+        '| --: | ---------------------------- | --------- |',
+        '|   1 | hello                        | ["a","b"] |',
+        '|  20 | a \\| b, "quoted" second line | NULL      |',
+      ].join('\n')
+    );
+  });
+
+  it('renders CSV with quoting for commas, quotes and line breaks', () => {
+    expect(formatSqlResult(result, 'csv')).toBe(
+      [
+        '2 rows; columns: id int4, title text, tags text[]',
+        '',
+        'id,title,tags',
+        '1,hello,"[""a"",""b""]"',
+        '20,"a | b, ""quoted""\nsecond line",',
+      ].join('\n')
+    );
+  });
+
+  it('cuts wide markdown cells', () => {
+    const text = formatSqlResult({ rows: [{ body: 'x'.repeat(100) }], rowCount: 1 }, 'markdown');
+    expect(text).toContain(`| ${'x'.repeat(39)}… |`);
+    expect(text.startsWith('1 row; columns: body\n')).toBe(true);
+  });
+
+  it('reports affected rows for statements without a result set', () => {
+    expect(formatSqlResult({ rows: [], rowCount: 3, fields: [] }, 'markdown')).toBe('Query executed successfully: 3 rows affected');
+    expect(formatSqlResult({ rows: [], rowCount: null }, 'csv')).toBe('Query executed successfully');
+  });
+
+  it('shows unknown column types by OID', () => {
+    expect(formatSqlResult({ rows: [], rowCount: 0, fields: [{ name: 'g', dataTypeID: 600 }] }, 'csv')).toBe('0 rows; columns: g oid:600\n\ng');
+  });
+});
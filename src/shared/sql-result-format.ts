@@ -0,0 +1,162 @@
+/**
+ * Text renderings of run-raw-sql results
+ */
+export const SQL_RESULT_FORMATS = ['markdown', 'csv', 'json'] as const;
+
+export type SqlResultFormat = (typeof SQL_RESULT_FORMATS)[number];
+
+/**
+ * Result shape returned by the backend's raw SQL endpoint
+ */
+export interface SqlResult {
+  rows: Record<string, unknown>[];
+  rowCount: number | null;
+  fields?: { name: string; dataTypeID: number }[];
+}
+
+// Wider markdown cells are cut, the full value stays in structuredContent and csv/json output
+const MAX_CELL_WIDTH = 40;
+
+// Postgres type OIDs for the column header; unknown types are shown by OID
+const PG_TYPE_NAMES: Record<number, string> = {
+  16: 'bool',
+  17: 'bytea',
+  18: 'char',
+  19: 'name',
+  20: 'int8',
+  21: 'int2',
+  23: 'int4',
+  25: 'text',
+  26: 'oid',
+  114: 'json',
+  199: 'json[]',
+  700: 'float4',
+  701: 'float8',
+  1000: 'bool[]',
+  1005: 'int2[]',
+  1007: 'int4[]',
+  1009: 'text[]',
+  1015: 'varchar[]',
+  1016: 'int8[]',
+  1042: 'bpchar',
+  1043: 'varchar',
+  1082: 'date',
+  1083: 'time',
+  1114: 'timestamp',
+  1184: 'timestamptz',
+  1186: 'interval',
+  1700: 'numeric',
+  2950: 'uuid',
+  2951: 'uuid[]',
+  3802: 'jsonb',
+  3807: 'jsonb[]',
+};
+
+// Right-aligned in markdown tables
+const NUMERIC_TYPE_IDS = new Set([20, 21, 23, 26, 700, 701, 1700]);
+
+interface Column {
+  name: string;
+  typeId?: number;
+}
+
+/**
+ * Columns from the field list, or from the row keys when the backend sent no fields
+ */
+function resultColumns(result: SqlResult): Column[] {
+  if (result.fields && result.fields.length > 0) {
+    return result.fields.map((field) => ({ name: field.name, typeId: field.dataTypeID }));
+  }
+
+  const names = new Set<string>();
+  for (const row of result.rows) {
+    Object.keys(row).forEach((name) => names.add(name));
+  }
+  return [...names].map((name) => ({ name }));
+}
+
+function typeName(typeId: number): string {
+  return PG_TYPE_NAMES[typeId] ?? `oid:${typeId}`;
+}
+
+/**
+ * Compact header: row count and column types, e.g. "3 rows; columns: id int4, title text"
+ */
+function describeResult(result: SqlResult, columns: Column[]): string {
+  const count = result.rows.length;
+  const rows = `${count} ${count === 1 ? 'row' : 'rows'}`;
+  const types = columns
+    .map((column) => (column.typeId === undefined ? column.name : `${column.name} ${typeName(column.typeId)}`))
+    .join(', ');
+  return `${rows}; columns: ${types}`;
+}
+
+/**
+ * Cell value as plain text; objects and arrays (json, arrays) as JSON
+ */
+function cellText(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function markdownCell(value: unknown): string {
+  const text = cellText(value);
+  if (text === null) {
+    return 'NULL';
+  }
+
+  const singleLine = text.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|');
+  return singleLine.length > MAX_CELL_WIDTH ? `${singleLine.slice(0, MAX_CELL_WIDTH - 1)}…` : singleLine;
+}
+
+function csvCell(value: unknown): string {
+  const text = cellText(value);
+  if (text === null) {
+    return '';
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderMarkdown(result: SqlResult, columns: Column[]): string {
+  const header = columns.map((column) => markdownCell(column.name));
+  const body = result.rows.map((row) => columns.map((column) => markdownCell(row[column.name])));
+  const widths = header.map((cell, index) =>
+    Math.max(3, cell.length, ...body.map((cells) => cells[index].length))
+  );
+  const rightAligned = columns.map((column) => column.typeId !== undefined && NUMERIC_TYPE_IDS.has(column.typeId));
+
+  const line = (cells: string[]) =>
+    `| ${cells.map((cell, index) => (rightAligned[index] ? cell.padStart(widths[index]) : cell.padEnd(widths[index]))).join(' | ')} |`;
+  const separator = `| ${widths.map((width, index) => (rightAligned[index] ? `${'-'.repeat(width - 1)}:` : '-'.repeat(width))).join(' | ')} |`;
+
+  return [line(header), separator, ...body.map(line)].join('\n');
+}
+
+function renderCsv(result: SqlResult, columns: Column[]): string {
+  const lines = [
+    columns.map((column) => csvCell(column.name)).join(','),
+    ...result.rows.map((row) => columns.map((column) => csvCell(row[column.name])).join(',')),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Render a SQL result as a markdown table or CSV under a compact column-type header
+ * Statements without a result set (INSERT, UPDATE, DDL) report the affected row count
+ */
+export function formatSqlResult(result: SqlResult, format: Exclude<SqlResultFormat, 'json'>): string {
+  const columns = resultColumns(result);
+  if (columns.length === 0) {
+    return result.rowCount !== null
+      ? `Query executed successfully: ${result.rowCount} ${result.rowCount === 1 ? 'row' : 'rows'} affected`
+      : 'Query executed successfully';
+  }
+
+  const table = format === 'csv' ? renderCsv(result, columns) : renderMarkdown(result, columns);
+  return `${describeResult(result, columns)}\n\n${table}`;
+}
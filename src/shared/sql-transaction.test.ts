@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { buildTransactionSql, parseTransactionFailure, parseTransactionResults, transactionControlKeyword } from './sql-transaction.js';
+
+/**
+ * The dollar-quoted bodies of a generated DO block, keyed by tag
+ */
+function quotedBodies(sql: string): Map<string, string[]> {
+  const bodies = new Map<string, string[]>();
+  for (const match of sql.matchAll(/(\$insforge_[0-9a-f]+_s\d+\$)([\s\S]*?)\1/g)) {
+    bodies.set(match[1], [...(bodies.get(match[1]) ?? []), match[2]]);
+  }
+  return bodies;
+}
+
+describe('buildTransactionSql', () => {
+  it('keeps parameters containing dollar-quote tags inside the quoted statement', () => {
+    const sql = buildTransactionSql([
+      { query: 'UPDATE posts SET title = $1 WHERE id = 1', params: ['x$insforge_s0$; DROP TABLE users; --'] },
+    ]);
+
+    const bodies = quotedBodies(sql);
+    expect(bodies.size).toBe(1);
+    expect([...bodies.values()][0]).toEqual([
+      "UPDATE posts SET title = 'x$insforge_s0$; DROP TABLE users; --' WHERE id = 1",
+    ]);
+    expect(sql.match(/DO (\$insforge_[0-9a-f]+_tx\$)/)).not.toBeNull();
+  });
+
+  it('uses tags that occur in none of the statements', () => {
+    const sql = buildTransactionSql([
+      { query: 'SELECT $1::text', params: ['$insforge_tx$'] },
+      { query: "SELECT '$insforge_s1$'" },
+    ]);
+    const outer = sql.match(/^DO (\$insforge_[0-9a-f]+_tx\$)/)![1];
+
+    expect(sql.split(outer)).toHaveLength(3);
+    expect(sql.endsWith("SELECT current_setting('insforge.transaction_result', true) AS result")).toBe(true);
+    expect([...quotedBodies(sql).values()].flat()).toEqual(["SELECT '$insforge_tx$'::text", "SELECT '$insforge_s1$'"]);
+  });
+
+  it('drops trailing comments and semicolons before wrapping a statement', () => {
+    const sql = buildTransactionSql([
+      { query: 'SELECT id FROM posts -- newest first' },
+      { query: 'SELECT 2; -- c' },
+      { query: '/* lead */ DELETE FROM posts WHERE id = 1;\n' },
+    ]);
+
+    expect([...quotedBodies(sql).values()].flat()).toEqual(['SELECT id FROM posts', 'SELECT 2', 'DELETE FROM posts WHERE id = 1']);
+    expect(sql).toMatch(/FROM \(' \|\| (\$insforge_[0-9a-f]+_s0\$)SELECT id FROM posts\1 \|\| '\) r' INTO step_rows;/);
+  });
+
+  it('rejects entries holding several statements', () => {
+    expect(() => buildTransactionSql([{ query: 'SELECT 1; SELECT 2' }])).toThrow('Statement 1 must be a single SQL statement, got 2');
+  });
+
+  it('wraps savepoint statements in their own exception block', () => {
+    const sql = buildTransactionSql([{ query: 'INSERT INTO t VALUES (1)', savepoint: true }]);
+    expect(sql).toMatch(/step := 1;\n\s+BEGIN\n[\s\S]*EXCEPTION WHEN OTHERS THEN\n\s+results := results \|\| jsonb_build_array\(jsonb_build_object\('rowCount', NULL, 'error', SQLERRM\)\);\n\s+END;/);
+  });
+});
+
+describe('transactionControlKeyword', () => {
+  it('finds transaction control statements', () => {
+    expect(transactionControlKeyword('  commit;')).toBe('COMMIT');
+    expect(transactionControlKeyword('/* c */ SAVEPOINT a')).toBe('SAVEPOINT');
+    expect(transactionControlKeyword('SELECT 1')).toBeNull();
+  });
+});
+
+describe('parseTransactionFailure', () => {
+  it('reads the failing statement from the raised error', () => {
+    expect(parseTransactionFailure('ERROR: INSFORGE_TX_FAILED:2:duplicate key value')).toEqual({ statement: 2, error: 'duplicate key value' });
+    expect(parseTransactionFailure('connection refused')).toBeNull();
+  });
+});
+
+describe('parseTransactionResults', () => {
+  it('takes the results of the last query of a multi-statement response', () => {
+    const results = [{ rowCount: 1 }, { rowCount: null, error: 'boom' }];
+    expect(parseTransactionResults([{ rows: [] }, { rows: [{ result: JSON.stringify(results) }] }])).toEqual(results);
+    expect(parseTransactionResults({ rows: [{ result: '' }] })).toBeNull();
+  });
+});
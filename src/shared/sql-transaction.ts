@@ -0,0 +1,144 @@
+import { dollarQuoteName, inlineSqlParams, maskSql, splitStatementText } from './sql-classifier.js';
+
+/**
+ * A statement of run-sql-transaction
+ * - savepoint: If the statement fails, roll back just this statement and carry on
+ */
+export interface TransactionStatement {
+  query: string;
+  params?: unknown[];
+  savepoint?: boolean;
+}
+
+/**
+ * Outcome of one statement inside a committed transaction
+ * - rows: Set for queries and statements with RETURNING
+ * - error: Set when a savepoint statement failed and was rolled back
+ */
+export interface TransactionStepResult {
+  rowCount: number | null;
+  rows?: Record<string, unknown>[];
+  error?: string;
+}
+
+// Transaction control is done by buildTransactionSql itself
+const TRANSACTION_CONTROL_KEYWORDS = new Set(['BEGIN', 'START', 'COMMIT', 'END', 'ROLLBACK', 'SAVEPOINT', 'RELEASE', 'ABORT']);
+
+// Marks the failing statement in the error that rolls the transaction back
+const FAILURE_MARKER = 'INSFORGE_TX_FAILED';
+
+// Transaction-local setting carrying per-statement results to the final SELECT
+const RESULT_SETTING = 'insforge.transaction_result';
+
+/**
+ * Leading keyword of a statement that controls transactions (BEGIN, COMMIT, SAVEPOINT, ...)
+ * @returns null for any other statement
+ */
+export function transactionControlKeyword(statement: string): string | null {
+  const keyword = maskSql(statement).trim().toUpperCase().match(/^[A-Z]+/)?.[0];
+  return keyword && TRANSACTION_CONTROL_KEYWORDS.has(keyword) ? keyword : null;
+}
+
+/**
+ * PL/pgSQL executing one statement, with its parameters already inlined, and appending its result
+ * @param tag Dollar-quote tag that does not occur in the statement
+ */
+function stepSql(sql: string, savepoint: boolean | undefined, index: number, tag: string): string {
+  const quoted = `${tag}${sql}${tag}`;
+  const masked = maskSql(sql).trim().toUpperCase();
+
+  // Queries and RETURNING clauses hand back their rows as JSON
+  let execute: string[];
+  if (/^\(*\s*(SELECT|WITH|VALUES|TABLE)\b/.test(masked) && !/\b(INSERT|UPDATE|DELETE|MERGE|INTO)\b/.test(masked)) {
+    execute = [
+      `EXECUTE 'SELECT coalesce(jsonb_agg(r), ''[]''::jsonb) FROM (' || ${quoted} || ') r' INTO step_rows;`,
+      `results := results || jsonb_build_array(jsonb_build_object('rowCount', jsonb_array_length(step_rows), 'rows', step_rows));`,
+    ];
+  } else if (/\bRETURNING\b/.test(masked)) {
+    execute = [
+      `EXECUTE 'WITH r AS (' || ${quoted} || ') SELECT coalesce(jsonb_agg(r), ''[]''::jsonb) FROM r' INTO step_rows;`,
+      `results := results || jsonb_build_array(jsonb_build_object('rowCount', jsonb_array_length(step_rows), 'rows', step_rows));`,
+    ];
+  } else {
+    execute = [
+      `EXECUTE ${quoted};`,
+      'GET DIAGNOSTICS affected = ROW_COUNT;',
+      `results := results || jsonb_build_array(jsonb_build_object('rowCount', affected));`,
+    ];
+  }
+
+  if (!savepoint) {
+    return [`step := ${index + 1};`, ...execute].map((line) => `  ${line}`).join('\n');
+  }
+
+  // A nested block with an exception handler is a savepoint
+  return [
+    `step := ${index + 1};`,
+    'BEGIN',
+    ...execute.map((line) => `  ${line}`),
+    'EXCEPTION WHEN OTHERS THEN',
+    `  results := results || jsonb_build_array(jsonb_build_object('rowCount', NULL, 'error', SQLERRM));`,
+    'END;',
+  ].map((line) => `  ${line}`).join('\n');
+}
+
+/**
+ * SQL running statements atomically and returning their results
+ *
+ * The statements run in one DO block, so any failure outside a savepoint rolls all of
+ * them back and raises an error naming the statement (see parseTransactionFailure).
+ * On success the block stores the results in a transaction-local setting that the
+ * following SELECT returns (see parseTransactionResults).
+ */
+export function buildTransactionSql(statements: TransactionStatement[]): string {
+  const bodies = statements.map((statement, index) => {
+    // Comments and semicolons at the end would swallow the text wrapped around the statement
+    const parts = splitStatementText(statement.query);
+    if (parts.length !== 1) {
+      throw new Error(`Statement ${index + 1} must be a single SQL statement, got ${parts.length}`);
+    }
+    return inlineSqlParams(parts[0], statement.params ?? []);
+  });
+  const name = dollarQuoteName(bodies);
+  const steps = bodies.map((sql, index) => stepSql(sql, statements[index].savepoint, index, `$${name}_s${index}$`));
+
+  return `DO $${name}_tx$
+DECLARE
+  results jsonb := '[]'::jsonb;
+  step_rows jsonb;
+  affected bigint;
+  step integer := 0;
+BEGIN
+${steps.join('\n')}
+  PERFORM set_config('${RESULT_SETTING}', results::text, true);
+EXCEPTION WHEN OTHERS THEN
+  RAISE EXCEPTION '${FAILURE_MARKER}:%:%', step, SQLERRM;
+END
+$${name}_tx$;
+SELECT current_setting('${RESULT_SETTING}', true) AS result`;
+}
+
+/**
+ * Find which statement made the transaction roll back
+ * @returns null if the error did not come from a statement (e.g. the request failed)
+ */
+export function parseTransactionFailure(errorMessage: string): { statement: number; error: string } | null {
+  const match = new RegExp(`${FAILURE_MARKER}:(\\d+):([\\s\\S]*)`).exec(errorMessage);
+  return match ? { statement: Number(match[1]), error: match[2].trim() } : null;
+}
+
+/**
+ * Per-statement results from the raw SQL response
+ * The backend reports either the last result or every result of a multi-statement query
+ * @returns null if the response carries no results
+ */
+export function parseTransactionResults(response: unknown): TransactionStepResult[] | null {
+  const candidates = Array.isArray(response) ? [...response].reverse() : [response];
+  for (const candidate of candidates) {
+    const value = (candidate as { rows?: { result?: unknown }[] } | null)?.rows?.[0]?.result;
+    if (typeof value === 'string' && value.length > 0) {
+      return JSON.parse(value) as TransactionStepResult[];
+    }
+  }
+  return null;
+}
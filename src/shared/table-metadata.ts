@@ -0,0 +1,116 @@
+import { normalizeType } from './schema-diff.js';
+
+/**
+ * A column as returned by /api/metadata/{table}
+ */
+export interface MetadataColumn {
+  columnName: string;
+  type: string;
+  isNullable: boolean;
+  isPrimaryKey?: boolean;
+  isUnique?: boolean;
+  defaultValue?: string | null;
+  foreignKey?: {
+    referenceTable: string;
+    referenceColumn: string;
+    onDelete?: string;
+    onUpdate?: string;
+  } | null;
+}
+
+export interface MetadataTable {
+  tableName: string;
+  columns: MetadataColumn[];
+}
+
+/**
+ * What the metadata API leaves out: enum labels, the underlying type of enum and array columns
+ * and character lengths
+ * - udtNames: Keyed by "table.column", e.g. "_text" for text[] or the enum's name
+ * - maxLengths: Keyed by "table.column", e.g. 200 for varchar(200)
+ */
+export interface ColumnTypeCatalog {
+  enums: Map<string, string[]>;
+  udtNames: Map<string, string>;
+  maxLengths: Map<string, number>;
+}
+
+/**
+ * A column type resolved against the catalog
+ * - base: Canonical Postgres type name (see normalizeType), or the enum name
+ * - enumValues: Set if the type (or array element type) is an enum
+ * - maxLength: Set for character types with a length, e.g. varchar(200)
+ */
+export interface ResolvedColumnType {
+  base: string;
+  array: boolean;
+  enumValues?: string[];
+  maxLength?: number;
+}
+
+/**
+ * Lists public enums, the types of enum and array columns and character lengths, as one row of JSON columns
+ */
+export const COLUMN_TYPE_CATALOG_SQL = `SELECT
+  (SELECT coalesce(json_object_agg(name, labels), '{}'::json)
+     FROM (
+       SELECT t.typname AS name, json_agg(e.enumlabel ORDER BY e.enumsortorder) AS labels
+         FROM pg_type t
+         JOIN pg_enum e ON e.enumtypid = t.oid
+         JOIN pg_namespace n ON n.oid = t.typnamespace
+        WHERE n.nspname = 'public'
+        GROUP BY t.typname
+     ) enums) AS enums,
+  (SELECT coalesce(json_object_agg(table_name || '.' || column_name, udt_name), '{}'::json)
+     FROM information_schema.columns
+    WHERE table_schema = 'public' AND data_type IN ('USER-DEFINED', 'ARRAY')) AS "udtNames",
+  (SELECT coalesce(json_object_agg(table_name || '.' || column_name, character_maximum_length), '{}'::json)
+     FROM information_schema.columns
+    WHERE table_schema = 'public' AND character_maximum_length IS NOT NULL) AS "maxLengths"`;
+
+/**
+ * Catalog from the row returned by COLUMN_TYPE_CATALOG_SQL; json columns may arrive parsed or as text
+ */
+export function parseColumnTypeCatalog(row: Record<string, unknown> | undefined): ColumnTypeCatalog {
+  const json = (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value ?? {}) as Record<string, never>;
+  return {
+    enums: new Map(Object.entries(json(row?.enums))),
+    udtNames: new Map(Object.entries(json(row?.udtNames))),
+    maxLengths: new Map(Object.entries(json(row?.maxLengths))),
+  };
+}
+
+/**
+ * Resolve a metadata column type, e.g. "ARRAY" to text[] or "USER-DEFINED" to an enum
+ */
+export function resolveColumnType(table: string, column: MetadataColumn, catalog: ColumnTypeCatalog): ResolvedColumnType {
+  const key = `${table}.${column.columnName}`;
+  let type = column.type;
+  if (['array', 'user-defined'].includes(type.toLowerCase()) || catalog.enums.has(type)) {
+    type = catalog.udtNames.get(key) ?? type;
+  }
+
+  let array = false;
+  if (type.startsWith('_')) {
+    array = true;
+    type = type.slice(1);
+  } else if (type.endsWith('[]')) {
+    array = true;
+    type = type.replace(/(\s*\[\])+$/, '');
+  }
+
+  const enumValues = catalog.enums.get(type);
+  if (enumValues) {
+    return { base: type, array, enumValues };
+  }
+
+  const maxLength = catalog.maxLengths.get(key) ?? Number(/^(?:character varying|varchar|character|char|bpchar)\s*\((\d+)\)/i.exec(type)?.[1]);
+  return Number.isInteger(maxLength) ? { base: normalizeType(type), array, maxLength } : { base: normalizeType(type), array };
+}
+
+/**
+ * Column values the backend fills in when an insert leaves them out
+ */
+export function hasInsertDefault(column: MetadataColumn): boolean {
+  return column.defaultValue !== undefined && column.defaultValue !== null && column.defaultValue !== '';
+}
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { defineTool } from '../tool-registry.js';
+
+const auditEntryOutputSchema = z.object({
+  timestamp: z.string(),
+  tool: z.string(),
+  arguments: z.record(z.unknown()),
+  durationMs: z.number(),
+  success: z.boolean(),
+  statusCode: z.number().optional(),
+  error: z.string().optional(),
+  project: z.string(),
+});
+
+export const queryAuditLogTool = defineTool({
+  name: 'query-audit-log',
+  group: 'audit',
+  description: 'Read back the audit log of tool calls made through this MCP server (newest first). Use it to answer questions like "what SQL did the agent run yesterday".',
+  inputSchema: {
+    since: z.string().datetime({ offset: true }).optional().describe('Only entries at or after this ISO 8601 timestamp'),
+    until: z.string().datetime({ offset: true }).optional().describe('Only entries at or before this ISO 8601 timestamp'),
+    tool: z.string().optional().describe('Only entries for this tool name, e.g. run-raw-sql'),
+    success: z.boolean().optional().describe('Only successful (true) or failed (false) calls'),
+    limit: z.number().int().min(1).max(500).optional().default(50).describe('Maximum entries to return (default: 50)'),
+  },
+  outputSchema: {
+    entries: z.array(auditEntryOutputSchema),
+  },
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  checkAvailability: (context) => (context.auditLog ? null : 'audit log is not enabled'),
+  errorMessage: 'Error querying audit log',
+  async handler({ since, until, tool, success, limit }, context) {
+    if (!context.auditLog) {
+      throw new Error('Audit log is not enabled for this server.');
+    }
+
+    const entries = await context.auditLog.query({
+      since: since ? new Date(since) : undefined,
+      until: until ? new Date(until) : undefined,
+      tool,
+      success,
+      limit,
+    });
+
+    return {
+      text: entries.length > 0
+        ? `Found ${entries.length} audit log entries:\n${entries.map((entry) => JSON.stringify(entry)).join('\n')}`
+        : 'No audit log entries match the query.',
+      structuredContent: { entries },
+    };
+  },
+});
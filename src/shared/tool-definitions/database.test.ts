@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ConfirmationTokens } from '../confirmation.js';
+import { classifySql } from '../sql-classifier.js';
+import { ToolContext, ToolInvocation } from '../tool-registry.js';
+import { confirmDangerousSql } from './database.js';
+
+const query = 'DROP TABLE posts';
+
+function contextFor(apiBaseUrl: string, confirmations: ConfirmationTokens): ToolContext {
+  return { apiBaseUrl, confirmations } as ToolContext;
+}
+
+// A client without elicitation support, so confirmation goes through tokens
+const invocation = { confirm: async () => null } as unknown as ToolInvocation;
+
+/**
+ * The token offered in a "Confirmation required" error
+ */
+async function issueToken(context: ToolContext): Promise<string> {
+  const error = await confirmDangerousSql(classifySql(query), query, query, undefined, context, invocation).catch((e: Error) => e);
+  return /confirm: "([0-9a-f]+)"/.exec(String(error))![1];
+}
+
+describe('confirmDangerousSql', () => {
+  it('does not ask about statements that are not dangerous', async () => {
+    const context = contextFor('https://dev.example.com', new ConfirmationTokens());
+    await expect(confirmDangerousSql(classifySql('SELECT 1'), 'SELECT 1', 'SELECT 1', undefined, context, invocation)).resolves.toBeUndefined();
+  });
+
+  it('accepts a token once, for the statement it was issued for', async () => {
+    const context = contextFor('https://dev.example.com', new ConfirmationTokens());
+    const token = await issueToken(context);
+
+    await expect(confirmDangerousSql(classifySql(query), query, 'DROP TABLE users', token, context, invocation)).rejects.toThrow('issued for a different statement');
+    const retry = await issueToken(context);
+    await expect(confirmDangerousSql(classifySql(query), query, query, retry, context, invocation)).resolves.toBe('token');
+    await expect(confirmDangerousSql(classifySql(query), query, query, retry, context, invocation)).rejects.toThrow('Confirmation required');
+  });
+
+  it('rejects a token issued for another backend, e.g. before switch-project', async () => {
+    const confirmations = new ConfirmationTokens();
+    const token = await issueToken(contextFor('https://dev.example.com', confirmations));
+
+    const prod = contextFor('https://prod.example.com', confirmations);
+    await expect(confirmDangerousSql(classifySql(query), query, query, token, prod, invocation)).rejects.toThrow('Confirmation required');
+  });
+});
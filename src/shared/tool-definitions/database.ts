@@ -0,0 +1,576 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import FormData from 'form-data';
+import {
+  rawSQLRequestSchema,
+  rawSQLResponseSchema,
+  RawSQLRequest,
+  RawSQLResponse,
+  BulkUpsertResponse,
+  bulkUpsertRequestSchema,
+  foreignKeySchema,
+} from '@insforge/shared-schemas';
+import { formatSuccessMessage } from '../response-handler.js';
+import { ToolContext, ToolInvocation, defineTool, apiKeyInput, paginatedOutput } from '../tool-registry.js';
+import {
+  SQL_CATEGORIES,
+  SqlClassification,
+  classifySql,
+  inlineSqlParams,
+  isReadOnlySql,
+  splitStatementText,
+} from '../sql-classifier.js';
+import { requireConfirmation } from '../confirmation.js';
+import {
+  buildTransactionSql,
+  parseTransactionFailure,
+  parseTransactionResults,
+  transactionControlKeyword,
+} from '../sql-transaction.js';
+import {
+  QueryPlan,
+  buildAnalyzeSql,
+  extractRaisedPlan,
+  seqScannedTables,
+  summarizePlan,
+} from '../query-plan.js';
+import { SQL_RESULT_FORMATS, formatSqlResult } from '../sql-result-format.js';
+import { formatBytes, uploadBody } from '../progress.js';
+
+// Output schemas tolerate extra fields so newer backends don't fail validation.
+// Backend objects are nested under a key because top-level extra fields are rejected.
+const tableColumnOutputSchema = z.object({
+  columnName: z.string(),
+  type: z.string(),
+  isNullable: z.boolean(),
+  isUnique: z.boolean().optional(),
+  isPrimaryKey: z.boolean().optional(),
+  defaultValue: z.string().nullable().optional(),
+  foreignKey: foreignKeySchema.partial().passthrough().nullable().optional(),
+}).passthrough();
+
+const tableSchemaOutputShape = {
+  table: z.object({
+    tableName: z.string(),
+    columns: z.array(tableColumnOutputSchema),
+    recordCount: z.number().optional(),
+  }).passthrough(),
+  ...paginatedOutput,
+};
+
+const backendMetadataOutputShape = {
+  metadata: z.object({
+    auth: z.record(z.unknown()).optional(),
+    database: z.object({
+      tables: z.array(z.object({ tableName: z.string() }).passthrough()),
+    }).passthrough().optional(),
+    storage: z.object({
+      buckets: z.array(z.object({ name: z.string() }).passthrough()),
+    }).passthrough().optional(),
+    functions: z.array(z.object({ slug: z.string() }).passthrough()).optional(),
+    version: z.string().optional(),
+  }).passthrough(),
+  ...paginatedOutput,
+};
+
+export const getTableSchemaTool = defineTool({
+  name: 'get-table-schema',
+  group: 'database',
+  description: 'Returns the detailed schema(including RLS, indexes, constraints, etc.) of a specific table',
+  inputSchema: {
+    ...apiKeyInput,
+    tableName: z.string().describe('Name of the table'),
+  },
+  outputSchema: tableSchemaOutputShape,
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  errorMessage: 'Error getting table schema',
+  async handler({ tableName }, context) {
+    const result = await context.backend.request<Partial<z.infer<typeof tableSchemaOutputShape.table>>>(`/api/metadata/${tableName}`);
+    return {
+      text: formatSuccessMessage('Schema retrieved', result),
+      structuredContent: {
+        table: { ...result, tableName: result.tableName ?? tableName, columns: result.columns ?? [] },
+      },
+    };
+  },
+});
+
+export const getBackendMetadataTool = defineTool({
+  name: 'get-backend-metadata',
+  group: 'database',
+  description: 'Index all backend metadata',
+  inputSchema: {
+    ...apiKeyInput,
+  },
+  outputSchema: backendMetadataOutputShape,
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  errorMessage: 'Error retrieving backend metadata',
+  async handler(_args, context) {
+    const metadata = await context.backend.request<z.infer<typeof backendMetadataOutputShape.metadata>>('/api/metadata?mcp=true');
+    return {
+      text: `Backend metadata:\n\n${JSON.stringify(metadata, null, 2)}`,
+      structuredContent: { metadata },
+    };
+  },
+});
+
+/**
+ * Run a query through the backend's raw SQL endpoint
+ */
+export async function executeRawSql<Row = Record<string, unknown>>(context: ToolContext, query: string, params: unknown[] = []) {
+  const requestBody: RawSQLRequest = { query, params };
+  return context.backend.request<Omit<Partial<RawSQLResponse>, 'rows'> & { rows?: Row[] }>('/api/database/advance/rawsql', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(requestBody),
+  });
+}
+
+const sqlClassificationOutputSchema = z.object({
+  category: z.enum(SQL_CATEGORIES).describe('Riskiest statement category: read, write, ddl or dangerous'),
+  statements: z.array(z.object({
+    category: z.enum(SQL_CATEGORIES),
+    keyword: z.string(),
+    reason: z.string().optional(),
+  })),
+  confirmedBy: z.enum(['token', 'elicitation']).optional().describe('How a dangerous query was approved'),
+});
+
+/**
+ * Whether SQL may have created or dropped tables, so the resource list needs refreshing
+ */
+function changesSchema({ classification }: { classification: SqlClassification }): boolean {
+  return classification.statements.some((statement) => statement.category === 'ddl' || statement.category === 'dangerous');
+}
+
+// Longest SQL shown to the user when asking for confirmation
+const MAX_CONFIRMATION_SQL_LENGTH = 2000;
+
+/**
+ * Require confirmation for dangerous SQL (DROP, TRUNCATE, ALTER ... DROP, DELETE/UPDATE without WHERE, unchecked code)
+ * @param subject - What a confirm token is bound to, with the backend URL: the SQL and its parameters
+ * @returns How the query was confirmed, or undefined if it needed no confirmation
+ */
+export async function confirmDangerousSql(
+  classification: SqlClassification,
+  query: string,
+  subject: string,
+  token: string | undefined,
+  context: ToolContext,
+  invocation: ToolInvocation
+): Promise<'token' | 'elicitation' | undefined> {
+  if (classification.category !== 'dangerous') {
+    return undefined;
+  }
+
+  const reasons = classification.statements.flatMap((statement) => (statement.reason ? [statement.reason] : []));
+  return requireConfirmation(context.confirmations, invocation.confirm, {
+    // A token approves the statement on this backend only, not after switch-project
+    subject: `${context.apiBaseUrl}\n${subject}`,
+    summary: `Dangerous SQL: ${reasons.join('; ')}`,
+    details: query.length > MAX_CONFIRMATION_SQL_LENGTH ? `${query.slice(0, MAX_CONFIRMATION_SQL_LENGTH)}…` : query,
+    token,
+  });
+}
+
+export const runRawSqlTool = defineTool({
+  name: 'run-raw-sql',
+  group: 'database',
+  description: 'Execute raw SQL query with optional parameters. Admin access required. Use with caution as it can modify data directly. Dangerous statements (DROP, TRUNCATE, ALTER ... DROP, DELETE/UPDATE without WHERE, and DO, EXECUTE, PREPARE, CALL or CREATE FUNCTION/PROCEDURE, whose bodies cannot be checked) only run after the user confirms.',
+  inputSchema: {
+    ...apiKeyInput,
+    ...rawSQLRequestSchema.shape,
+    format: z
+      .enum(SQL_RESULT_FORMATS)
+      .optional()
+      .default('markdown')
+      .describe('How rows are shown: markdown table (default, wide cells truncated), csv, or the raw json response'),
+    confirm: z
+      .string()
+      .optional()
+      .describe('Token from a "Confirmation required" response, passed only after the user approved the statement'),
+  },
+  outputSchema: {
+    ...rawSQLResponseSchema.shape,
+    classification: sqlClassificationOutputSchema,
+    ...paginatedOutput,
+  },
+  changesResources: changesSchema,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false },
+  allowInReadOnlyMode: true,
+  errorMessage: 'Error executing SQL query',
+  async handler({ query, params, format, confirm }, context, invocation) {
+    if (context.readOnly && !isReadOnlySql(query)) {
+      throw new Error('The MCP server is running in read-only mode. Only read queries (SELECT, WITH, SHOW, EXPLAIN, VALUES, TABLE) are allowed.');
+    }
+
+    const classification = classifySql(query);
+    const confirmedBy = await confirmDangerousSql(
+      classification,
+      query,
+      JSON.stringify({ query, params: params ?? [] }),
+      confirm,
+      context,
+      invocation
+    );
+
+    const result = await executeRawSql(context, query, params);
+    const sqlResult = { rows: result.rows ?? [], rowCount: result.rowCount ?? null, fields: result.fields };
+    const classificationLine = `Classification: ${classification.category}${confirmedBy ? ` (confirmed by ${confirmedBy === 'token' ? 'token' : 'the user'})` : ''}`;
+    return {
+      text: `${classificationLine}\n${format === 'json'
+        ? formatSuccessMessage('SQL query executed', result)
+        : formatSqlResult(sqlResult, format)}`,
+      structuredContent: {
+        rows: result.rows ?? [],
+        rowCount: result.rowCount ?? null,
+        fields: result.fields,
+        classification: { ...classification, confirmedBy },
+      },
+    };
+  },
+});
+
+// Statements per transaction; larger changes belong in migrations
+const MAX_TRANSACTION_STATEMENTS = 100;
+
+const transactionStatementOutputSchema = z.object({
+  keyword: z.string(),
+  category: z.enum(SQL_CATEGORIES),
+  rowCount: z.number().nullable(),
+  rows: z.array(z.record(z.unknown())).optional(),
+  error: z.string().optional().describe('Why a savepoint statement failed; it was rolled back and the transaction went on'),
+});
+
+export const runSqlTransactionTool = defineTool({
+  name: 'run-sql-transaction',
+  group: 'database',
+  description: 'Run several SQL statements atomically, e.g. create table, backfill, add constraint. If a statement fails, all of them are rolled back and the failing statement is reported. A statement marked savepoint only rolls itself back on failure. Dangerous statements need confirmation as in run-raw-sql.',
+  inputSchema: {
+    ...apiKeyInput,
+    statements: z
+      .array(z.object({
+        query: z.string().describe('A single SQL statement'),
+        params: z.array(z.unknown()).optional().describe('Values for $1, $2, ... placeholders in this statement'),
+        savepoint: z.boolean().optional().describe('On failure, roll back only this statement and continue'),
+      }))
+      .min(1)
+      .max(MAX_TRANSACTION_STATEMENTS)
+      .describe('Statements in the order they run'),
+    confirm: z
+      .string()
+      .optional()
+      .describe('Token from a "Confirmation required" response, passed only after the user approved the statements'),
+  },
+  outputSchema: {
+    classification: sqlClassificationOutputSchema,
+    statements: z
+      .array(transactionStatementOutputSchema)
+      .optional()
+      .describe('Per-statement results, when the backend reports them'),
+    ...paginatedOutput,
+  },
+  changesResources: changesSchema,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false },
+  errorMessage: 'Error running SQL transaction',
+  async handler({ statements, confirm }, context, invocation) {
+    statements.forEach((statement, index) => {
+      const parts = splitStatementText(statement.query);
+      if (parts.length !== 1) {
+        throw new Error(`Statement ${index + 1} must be a single SQL statement, got ${parts.length}`);
+      }
+      const keyword = transactionControlKeyword(statement.query);
+      if (keyword) {
+        throw new Error(`Statement ${index + 1} is ${keyword}; transactions and savepoints are managed by run-sql-transaction`);
+      }
+    });
+
+    const sql = statements.map((statement) => splitStatementText(statement.query)[0]).join(';\n');
+    const classification = classifySql(sql);
+    const confirmedBy = await confirmDangerousSql(
+      classification,
+      sql,
+      JSON.stringify(statements.map(({ query, params, savepoint }) => ({ query, params: params ?? [], savepoint: Boolean(savepoint) }))),
+      confirm,
+      context,
+      invocation
+    );
+
+    let response: unknown;
+    try {
+      response = await executeRawSql(context, buildTransactionSql(statements));
+    } catch (error) {
+      const failure = error instanceof Error ? parseTransactionFailure(error.message) : null;
+      if (!failure) {
+        throw error;
+      }
+      const failed = failure.statement > 0
+        ? `statement ${failure.statement} (${classification.statements[failure.statement - 1]?.keyword}) failed`
+        : 'the transaction failed before its first statement';
+      throw new Error(`Rolled back, no changes were applied: ${failed}: ${failure.error}`);
+    }
+
+    const results = parseTransactionResults(response);
+    const steps = results?.map((result, index) => ({
+      keyword: classification.statements[index]?.keyword ?? 'UNKNOWN',
+      category: classification.statements[index]?.category ?? 'write',
+      rowCount: result.rowCount,
+      rows: result.rows,
+      error: result.error,
+    }));
+
+    const header = `Transaction committed: ${statements.length} ${statements.length === 1 ? 'statement' : 'statements'}, classification ${classification.category}${confirmedBy ? ` (confirmed by ${confirmedBy === 'token' ? 'token' : 'the user'})` : ''}`;
+    const lines = steps
+      ? steps.map((step, index) => {
+        const outcome = step.error
+          ? `failed, rolled back to its savepoint: ${step.error}`
+          : step.rowCount !== null ? `${step.rowCount} ${step.rowCount === 1 ? 'row' : 'rows'}` : 'ok';
+        const table = step.rows && step.rows.length > 0
+          ? `\n${formatSqlResult({ rows: step.rows, rowCount: step.rowCount }, 'markdown')}`
+          : '';
+        return `${index + 1}. ${step.keyword} (${step.category}): ${outcome}${table}`;
+      })
+      : ['The backend did not report per-statement results.'];
+
+    return {
+      text: `${header}\n${lines.join('\n')}`,
+      structuredContent: {
+        classification: { ...classification, confirmedBy },
+        statements: steps,
+      },
+    };
+  },
+});
+
+/**
+ * Run EXPLAIN (FORMAT JSON), or EXPLAIN ANALYZE rolled back by buildAnalyzeSql
+ */
+async function explainQuery(context: ToolContext, query: string, params: unknown[], analyze: boolean): Promise<QueryPlan> {
+  if (!analyze) {
+    const result = await executeRawSql(context, `EXPLAIN (FORMAT JSON) ${query}`, params);
+    const plan = result.rows?.[0]?.['QUERY PLAN'];
+    if (!plan) {
+      throw new Error('The backend returned no query plan');
+    }
+    return (typeof plan === 'string' ? JSON.parse(plan) : plan)[0];
+  }
+
+  try {
+    await executeRawSql(context, buildAnalyzeSql(inlineSqlParams(query, params)));
+  } catch (error) {
+    const plan = error instanceof Error ? extractRaisedPlan(error.message) : null;
+    if (plan) {
+      return plan[0];
+    }
+    throw error;
+  }
+  throw new Error('The backend did not report the query plan');
+}
+
+/**
+ * Estimated row counts of tables from pg_class; empty if they cannot be read
+ */
+async function fetchTableRowEstimates(context: ToolContext, tables: string[]): Promise<Map<string, number>> {
+  if (tables.length === 0) {
+    return new Map();
+  }
+
+  try {
+    const result = await executeRawSql<{ relname: string; estimate: unknown }>(
+      context,
+      "SELECT relname, max(reltuples)::bigint AS estimate FROM pg_class WHERE relkind IN ('r', 'p', 'm') AND relname = ANY($1) GROUP BY relname",
+      [tables]
+    );
+    return new Map(
+      (result.rows ?? [])
+        .filter((row) => Number(row.estimate) >= 0)
+        .map((row) => [row.relname, Number(row.estimate)])
+    );
+  } catch {
+    return new Map();
+  }
+}
+
+export const explainQueryTool = defineTool({
+  name: 'explain-query',
+  group: 'database',
+  description: 'Explain why a query is slow: shows a condensed query plan and points out sequential scans on large tables, misestimated row counts and the most expensive steps. With analyze, the query really runs inside a transaction that is rolled back; side effects outside the transaction (sequences, dblink) stay, dangerous statements need confirmation as in run-raw-sql, and read-only mode only allows reads.',
+  inputSchema: {
+    ...apiKeyInput,
+    query: z.string().describe('A single SELECT, INSERT, UPDATE, DELETE or MERGE statement, without EXPLAIN'),
+    params: z.array(z.unknown()).optional().describe('Values for $1, $2, ... placeholders'),
+    analyze: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe('Run the query to get actual times and row counts; changes are rolled back'),
+    confirm: z
+      .string()
+      .optional()
+      .describe('Token from a "Confirmation required" response, passed only after the user approved analyzing the statement'),
+  },
+  outputSchema: {
+    analyzed: z.boolean(),
+    totalCost: z.number(),
+    planningTimeMs: z.number().optional(),
+    executionTimeMs: z.number().optional(),
+    findings: z.array(z.object({
+      kind: z.enum(['seq-scan', 'misestimate', 'expensive']),
+      node: z.string(),
+      detail: z.string(),
+    })),
+    plan: z.record(z.unknown()).describe('Full EXPLAIN (FORMAT JSON) output'),
+    ...paginatedOutput,
+  },
+  // With analyze the statement really runs, so it is gated like run-raw-sql
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false },
+  allowInReadOnlyMode: true,
+  errorMessage: 'Error explaining query',
+  async handler({ query, params, analyze, confirm }, context, invocation) {
+    // Drops the trailing semicolon and any comments around the statement
+    const statements = splitStatementText(query);
+    if (statements.length !== 1) {
+      throw new Error(`Expected a single statement, got ${statements.length}`);
+    }
+    const [statement] = statements;
+    if (/^\(*\s*EXPLAIN\b/i.test(statement)) {
+      throw new Error('Pass the query itself; explain-query adds EXPLAIN');
+    }
+    if (analyze) {
+      if (context.readOnly && !isReadOnlySql(statement)) {
+        throw new Error('The MCP server is running in read-only mode. Only read queries can be explained with analyze.');
+      }
+      await confirmDangerousSql(
+        classifySql(statement),
+        statement,
+        JSON.stringify({ explainAnalyze: statement, params: params ?? [] }),
+        confirm,
+        context,
+        invocation
+      );
+    }
+
+    const plan = await explainQuery(context, statement, params ?? [], analyze);
+    const summary = summarizePlan(plan, await fetchTableRowEstimates(context, seqScannedTables(plan)));
+
+    const timing = [
+      summary.planningTimeMs !== undefined ? `planning ${summary.planningTimeMs.toFixed(3)}ms` : null,
+      summary.executionTimeMs !== undefined ? `execution ${summary.executionTimeMs.toFixed(3)}ms` : null,
+    ].filter(Boolean).join(', ');
+    const findings = summary.findings.length > 0
+      ? summary.findings.map((finding) => `- ${finding.kind}: ${finding.node}: ${finding.detail}`).join('\n')
+      : '- Nothing stands out';
+
+    return {
+      text: `Query plan (${analyze ? 'EXPLAIN ANALYZE, rolled back' : 'estimated'}; total cost ${summary.totalCost.toFixed(2)}${timing ? `; ${timing}` : ''}):
+${summary.tree}
+
+Findings:
+${findings}`,
+      structuredContent: {
+        analyzed: analyze,
+        totalCost: summary.totalCost,
+        planningTimeMs: summary.planningTimeMs,
+        executionTimeMs: summary.executionTimeMs,
+        findings: summary.findings,
+        plan,
+      },
+    };
+  },
+});
+
+/**
+ * Count the records in a bulk upsert file for progress reporting
+ * CSV files are counted by non-empty lines after the header, JSON files by array length
+ */
+function countRecords(fileBuffer: Buffer, fileName: string): number | undefined {
+  const content = fileBuffer.toString('utf-8');
+  if (fileName.toLowerCase().endsWith('.json')) {
+    try {
+      const data = JSON.parse(content);
+      return Array.isArray(data) ? data.length : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  return Math.max(lines.length - 1, 0);
+}
+
+export const bulkUpsertTool = defineTool({
+  name: 'bulk-upsert',
+  group: 'database',
+  description: 'Bulk insert or update data from CSV or JSON file. Supports upsert operations with a unique key.',
+  inputSchema: {
+    ...apiKeyInput,
+    ...bulkUpsertRequestSchema.shape,
+    filePath: z.string().describe('Path to CSV or JSON file containing data to import'),
+  },
+  outputSchema: {
+    message: z.string(),
+    table: z.string(),
+    rowsAffected: z.number(),
+    totalRecords: z.number(),
+    errors: z.array(z.unknown()).optional(),
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  errorMessage: 'Error performing bulk upsert',
+  async handler({ table, filePath, upsertKey }, context, { reportProgress }) {
+    // Read the file
+    reportProgress(0, 100, `Reading ${filePath}`);
+    const fileBuffer = await fs.readFile(filePath);
+    const fileName = filePath.split('/').pop() || 'data.csv';
+    const recordCount = countRecords(fileBuffer, fileName);
+    const records = recordCount === undefined ? 'records' : `${recordCount} records`;
+    reportProgress(10, 100, `Read ${records} (${formatBytes(fileBuffer.length)})`);
+
+    // Create form data for multipart upload
+    const formData = new FormData();
+    formData.append('file', fileBuffer, fileName);
+    formData.append('table', table);
+    if (upsertKey) {
+      formData.append('upsertKey', upsertKey);
+    }
+
+    // Stream the multipart body from memory so upload progress can be reported
+    const uploadBuffer = formData.getBuffer();
+    const body = uploadBody(uploadBuffer, (bytesSent) => {
+      // The backend processes rows once the whole file is uploaded
+      const message = bytesSent < uploadBuffer.length
+        ? `Uploaded ${formatBytes(bytesSent)} of ${formatBytes(uploadBuffer.length)}`
+        : `Processing ${records} into "${table}"`;
+      reportProgress(10 + (bytesSent / uploadBuffer.length) * 70, 100, message);
+    });
+
+    const result = await context.backend.request<Partial<BulkUpsertResponse> & { errors?: unknown[] }>('/api/database/advance/bulk-upsert', {
+      method: 'POST',
+      headers: {
+        ...formData.getHeaders(),
+        'Content-Length': String(uploadBuffer.length),
+      },
+      body,
+    });
+
+    // Format the result message
+    const message = result.success
+      ? `Successfully processed ${result.rowsAffected} of ${result.totalRecords} records into table "${result.table}"`
+      : result.message || 'Bulk upsert operation completed';
+
+    const summary = {
+      message,
+      table: result.table ?? table,
+      rowsAffected: result.rowsAffected ?? 0,
+      totalRecords: result.totalRecords ?? 0,
+      errors: result.errors,
+    };
+    reportProgress(100, 100, `Processed ${summary.rowsAffected} of ${summary.totalRecords} rows`);
+
+    return {
+      text: formatSuccessMessage('Bulk upsert completed', summary),
+      structuredContent: summary,
+    };
+  },
+});
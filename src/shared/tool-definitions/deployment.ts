@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import archiver from 'archiver';
+import FormData from 'form-data';
+import {
+  startDeploymentRequestSchema,
+  StartDeploymentRequest,
+  CreateDeploymentResponse,
+  StartDeploymentResponse,
+  deploymentStatusSchema,
+} from '@insforge/shared-schemas';
+import { formatSuccessMessage } from '../response-handler.js';
+import { defineTool } from '../tool-registry.js';
+import { RequestCancelledError, throwIfCancelled } from '../backend-client.js';
+import { formatBytes, uploadBody } from '../progress.js';
+
+// Presigned uploads of large archives can take much longer than regular API calls
+const UPLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Patterns to exclude from deployment archives (normalized for cross-platform)
+const EXCLUDE_PATTERNS = [
+  'node_modules',
+  '.git',
+  '.next',
+  '.env',
+  '.env.local',
+  'dist',
+  'build',
+  '.DS_Store',
+];
+
+/**
+ * Validate that the source directory is an absolute path to an existing directory
+ */
+async function validateSourceDirectory(sourceDirectory: string): Promise<void> {
+  const isAbsolutePath = sourceDirectory.startsWith('/') || /^[a-zA-Z]:[/\\]/.test(sourceDirectory);
+  if (!isAbsolutePath) {
+    throw new Error(`sourceDirectory must be an absolute path, not a relative path like "${sourceDirectory}". Please provide the full path to the source directory (e.g., /Users/name/project on macOS/Linux or C:\\Users\\name\\project on Windows).`);
+  }
+
+  let isDirectory: boolean;
+  try {
+    isDirectory = (await fs.stat(sourceDirectory)).isDirectory();
+  } catch {
+    throw new Error(`Directory "${sourceDirectory}" does not exist or is not accessible. Please verify the path is correct.`);
+  }
+
+  if (!isDirectory) {
+    throw new Error(`"${sourceDirectory}" is not a directory. Please provide a path to a directory containing the source code.`);
+  }
+}
+
+// Share of the overall progress (0-100) reached after each deployment stage
+const PROGRESS_CREATED = 5;
+const PROGRESS_SCANNED = 10;
+const PROGRESS_ZIPPED = 40;
+const PROGRESS_UPLOADED = 90;
+
+/**
+ * Check whether a path relative to the source directory is left out of the archive
+ */
+function isExcludedPath(relativePath: string): boolean {
+  // Normalize path separators for cross-platform matching
+  const normalizedName = relativePath.replace(/\\/g, '/');
+
+  for (const pattern of EXCLUDE_PATTERNS) {
+    if (normalizedName.startsWith(pattern + '/') ||
+        normalizedName === pattern ||
+        normalizedName.endsWith('/' + pattern) ||
+        normalizedName.includes('/' + pattern + '/')) {
+      return true;
+    }
+  }
+
+  // Skip log files
+  return normalizedName.endsWith('.log');
+}
+
+/**
+ * Count the files and bytes that will be archived, so zip progress has a known total
+ */
+async function scanSourceDirectory(
+  sourceDirectory: string,
+  signal: AbortSignal
+): Promise<{ fileCount: number; totalBytes: number }> {
+  let fileCount = 0;
+  let totalBytes = 0;
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    throwIfCancelled(signal);
+    const entries = await fs.readdir(path.join(sourceDirectory, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (isExcludedPath(relativePath)) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+      } else if (entry.isFile()) {
+        fileCount++;
+        totalBytes += (await fs.stat(path.join(sourceDirectory, relativePath))).size;
+      }
+    }
+  };
+
+  await walk('');
+  return { fileCount, totalBytes };
+}
+
+/**
+ * Zip progress: files added and uncompressed bytes read so far, and compressed bytes produced
+ */
+interface ZipProgress {
+  filesProcessed: number;
+  bytesProcessed: number;
+  zippedBytes: number;
+}
+
+/**
+ * Create a zip of the source directory in memory using archiver (cross-platform)
+ * Uses archive.directory() instead of glob() for better Windows compatibility
+ * The archive is aborted and its buffered output discarded if the call is cancelled
+ */
+function zipSourceDirectory(
+  sourceDirectory: string,
+  onProgress: (progress: ZipProgress) => void,
+  signal: AbortSignal
+): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    throwIfCancelled(signal);
+
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    let chunks: Buffer[] = [];
+    let zippedBytes = 0;
+
+    const onAbort = () => {
+      archive.abort();
+      chunks = [];
+      reject(new RequestCancelledError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    archive.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      zippedBytes += chunk.length;
+    });
+    archive.on('progress', ({ entries, fs: fsProgress }) => {
+      onProgress({ filesProcessed: entries.processed, bytesProcessed: fsProgress.processedBytes, zippedBytes });
+    });
+    archive.on('end', () => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(Buffer.concat(chunks));
+    });
+    archive.on('error', (err: Error) => {
+      signal.removeEventListener('abort', onAbort);
+      reject(err);
+    });
+
+    // Add directory with filter function for cross-platform compatibility
+    archive.directory(sourceDirectory, false, (entry) => (isExcludedPath(entry.name) ? false : entry));
+
+    archive.finalize();
+  });
+}
+
+export const createDeploymentTool = defineTool({
+  name: 'create-deployment',
+  group: 'deployment',
+  description: 'Deploy source code from a directory. This tool zips files, uploads to cloud storage, and triggers deployment with optional environment variables and project settings.',
+  inputSchema: {
+    sourceDirectory: z.string().describe('Absolute path to the source directory containing files to deploy (e.g., /Users/name/project or C:\\Users\\name\\project). Do not use relative paths like "."'),
+    ...startDeploymentRequestSchema.shape,
+  },
+  outputSchema: {
+    deploymentId: z.string(),
+    status: z.union([deploymentStatusSchema, z.string()]).optional(),
+    url: z.string().nullable().optional(),
+  },
+  version: { minVersion: '1.4.7' },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+  errorMessage: 'Error creating deployment',
+  async handler({ sourceDirectory, projectSettings, envVars, meta }, context, { reportProgress, signal }) {
+    await validateSourceDirectory(sourceDirectory);
+
+    // Step 1: Create deployment to get presigned upload URL
+    reportProgress(0, 100, 'Creating deployment');
+    const createResult: CreateDeploymentResponse = await context.backend.request('/api/deployments', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    const { id: deploymentId, uploadUrl, uploadFields } = createResult;
+
+    // Step 2: Create zip in memory
+    reportProgress(PROGRESS_CREATED, 100, 'Scanning files');
+    const { fileCount, totalBytes } = await scanSourceDirectory(sourceDirectory, signal);
+    reportProgress(PROGRESS_SCANNED, 100, `Found ${fileCount} files (${formatBytes(totalBytes)})`);
+
+    const zipBuffer = await zipSourceDirectory(sourceDirectory, ({ filesProcessed, bytesProcessed, zippedBytes }) => {
+      const share = totalBytes > 0 ? Math.min(bytesProcessed / totalBytes, 1) : 0;
+      reportProgress(
+        PROGRESS_SCANNED + share * (PROGRESS_ZIPPED - PROGRESS_SCANNED),
+        100,
+        `Zipped ${filesProcessed} of ${fileCount} files (${formatBytes(zippedBytes)})`
+      );
+    }, signal);
+    reportProgress(PROGRESS_ZIPPED, 100, `Zipped ${fileCount} files into ${formatBytes(zipBuffer.length)}`);
+
+    // Step 3: Upload zip to presigned URL
+    const uploadFormData = new FormData();
+
+    // Add all presigned fields first
+    for (const [key, value] of Object.entries(uploadFields)) {
+      uploadFormData.append(key, value);
+    }
+    // Add the file last
+    uploadFormData.append('file', zipBuffer, {
+      filename: 'deployment.zip',
+      contentType: 'application/zip',
+    });
+
+    // Stream the multipart body from memory so upload progress can be reported
+    const uploadBuffer = uploadFormData.getBuffer();
+    const body = uploadBody(uploadBuffer, (bytesSent) => {
+      reportProgress(
+        PROGRESS_ZIPPED + (bytesSent / uploadBuffer.length) * (PROGRESS_UPLOADED - PROGRESS_ZIPPED),
+        100,
+        `Uploaded ${formatBytes(bytesSent)} of ${formatBytes(uploadBuffer.length)}`
+      );
+    });
+
+    // The presigned URL points at cloud storage, so no API key is sent
+    const uploadResponse = await context.backend.fetch(uploadUrl, {
+      method: 'POST',
+      body,
+      headers: {
+        ...uploadFormData.getHeaders(),
+        'Content-Length': String(uploadBuffer.length),
+      },
+      auth: false,
+      timeoutMs: UPLOAD_TIMEOUT_MS,
+    });
+
+    if (!uploadResponse.ok) {
+      const uploadError = await uploadResponse.text();
+      throw new Error(`Failed to upload zip file: ${uploadError}`);
+    }
+
+    // Step 4: Start the deployment
+    reportProgress(PROGRESS_UPLOADED, 100, 'Starting deployment');
+    const startBody: StartDeploymentRequest = {};
+    if (projectSettings) startBody.projectSettings = projectSettings;
+    if (envVars) startBody.envVars = envVars;
+    if (meta) startBody.meta = meta;
+
+    const startResult = await context.backend.request<Partial<StartDeploymentResponse>>(`/api/deployments/${deploymentId}/start`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(startBody),
+    });
+    reportProgress(100, 100, 'Deployment started');
+
+    return {
+      text: formatSuccessMessage('Deployment started', startResult) + '\n\nNote: You can check deployment status by querying the system.deployments table.',
+      structuredContent: {
+        deploymentId: startResult.id ?? deploymentId,
+        status: startResult.status,
+        url: startResult.url,
+      },
+    };
+  },
+});
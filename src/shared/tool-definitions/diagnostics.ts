@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { ConnectionStatus, ToolContext, defineTool } from '../tool-registry.js';
+
+const connectionStatusOutputSchema = {
+  apiBaseUrl: z.string(),
+  apiKeyConfigured: z.boolean(),
+  connected: z.boolean(),
+  attempts: z.number().describe('Failed health checks so far'),
+  lastError: z.string().optional(),
+  lastCheckedAt: z.string().optional(),
+  nextRetryAt: z.string().optional().describe('When the next automatic health check runs'),
+};
+
+/**
+ * Build a connection report for diagnostic tool output
+ */
+function connectionReport(status: ConnectionStatus, context: ToolContext) {
+  const structuredContent = {
+    apiBaseUrl: context.apiBaseUrl,
+    apiKeyConfigured: context.backend.hasApiKey,
+    connected: status.connected,
+    attempts: status.attempts,
+    lastError: status.lastError,
+    lastCheckedAt: status.lastCheckedAt?.toISOString(),
+    nextRetryAt: status.nextRetryAt?.toISOString(),
+  };
+
+  const text = status.connected
+    ? `✅ Insforge backend at ${context.apiBaseUrl} is reachable (version ${context.backendVersion}). The full tool set is now available; refresh your tool list if it is not shown.`
+    : `❌ Insforge backend at ${context.apiBaseUrl} is unreachable.
+
+Last error: ${status.lastError ?? 'unknown'}
+Failed health checks: ${status.attempts}
+Next automatic retry: ${structuredContent.nextRetryAt ?? 'pending'}
+API key: ${structuredContent.apiKeyConfigured ? 'configured' : 'NOT configured'}
+
+Troubleshooting:
+- Make sure the Insforge backend is running and ${context.apiBaseUrl}/api/health responds
+- Check the --api_base_url passed to the MCP server (or the API_BASE_URL environment variable)
+- Insforge tools are registered automatically once the backend answers`;
+
+  return { text, structuredContent };
+}
+
+export const getConnectionStatusTool = defineTool({
+  name: 'get-connection-status',
+  group: 'diagnostics',
+  description: 'The Insforge backend is currently unreachable, so only diagnostic tools are available. Reports why the connection failed and when it will be retried.',
+  inputSchema: {},
+  outputSchema: connectionStatusOutputSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  diagnostic: true,
+  errorMessage: 'Error getting connection status',
+  async handler(_args, context) {
+    return connectionReport(context.getConnectionStatus(), context);
+  },
+});
+
+export const retryConnectionTool = defineTool({
+  name: 'retry-connection',
+  group: 'diagnostics',
+  description: 'Retry connecting to the Insforge backend now instead of waiting for the next automatic retry. On success the full Insforge tool set is registered.',
+  inputSchema: {},
+  outputSchema: connectionStatusOutputSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  diagnostic: true,
+  errorMessage: 'Error retrying connection',
+  async handler(_args, context) {
+    await context.retryConnection();
+    return connectionReport(context.getConnectionStatus(), context);
+  },
+});
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import {
+  functionSchema,
+  UpdateFunctionRequest,
+  updateFunctionRequestSchema,
+  uploadFunctionRequestSchema,
+} from '@insforge/shared-schemas';
+import { formatSuccessMessage } from '../response-handler.js';
+import { defineTool } from '../tool-registry.js';
+
+// Function details as returned by the backend, tolerating missing or extra fields
+const functionOutputSchema = functionSchema.partial().passthrough();
+
+type FunctionResponse = { function?: z.infer<typeof functionOutputSchema> };
+
+/**
+ * Read edge function source code from a file
+ */
+async function readCodeFile(codeFile: string): Promise<string> {
+  try {
+    return await fs.readFile(codeFile, 'utf-8');
+  } catch (fileError) {
+    throw new Error(
+      `Failed to read code file '${codeFile}': ${fileError instanceof Error ? fileError.message : 'Unknown error'}`
+    );
+  }
+}
+
+export const createFunctionTool = defineTool({
+  name: 'create-function',
+  group: 'functions',
+  description: 'Create a new edge function that runs in Deno runtime. The code must be written to a file first for version control',
+  inputSchema: {
+    ...uploadFunctionRequestSchema.omit({ code: true }).shape,
+    codeFile: z
+      .string()
+      .describe(
+        'Path to JavaScript file containing the function code. Must export: module.exports = async function(request) { return new Response(...) }'
+      ),
+  },
+  outputSchema: {
+    slug: z.string().optional(),
+    codeFile: z.string(),
+    function: functionOutputSchema.optional(),
+  },
+  changesResources: true,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+  errorMessage: 'Error creating function',
+  async handler({ slug, name, description, status, codeFile }, context) {
+    const code = await readCodeFile(codeFile);
+
+    const result = await context.backend.request<FunctionResponse>('/api/functions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        slug,
+        name,
+        code,
+        description,
+        status,
+      }),
+    });
+    return {
+      text: formatSuccessMessage(`Edge function '${slug}' created successfully from ${codeFile}`, result),
+      structuredContent: { slug: result?.function?.slug ?? slug, codeFile, function: result?.function },
+    };
+  },
+});
+
+export const getFunctionTool = defineTool({
+  name: 'get-function',
+  group: 'functions',
+  description: 'Get details of a specific edge function including its code',
+  inputSchema: {
+    slug: z.string().describe('The slug identifier of the function'),
+  },
+  outputSchema: {
+    function: functionOutputSchema,
+  },
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  errorMessage: 'Error getting function',
+  async handler({ slug }, context) {
+    const result = await context.backend.request<FunctionResponse & z.infer<typeof functionOutputSchema>>(`/api/functions/${slug}`);
+    return {
+      text: formatSuccessMessage(`Edge function '${slug}' details`, result),
+      structuredContent: { function: result?.function ?? result },
+    };
+  },
+});
+
+export const updateFunctionTool = defineTool({
+  name: 'update-function',
+  group: 'functions',
+  description: 'Update an existing edge function code or metadata',
+  inputSchema: {
+    slug: z.string().describe('The slug identifier of the function to update'),
+    ...updateFunctionRequestSchema.omit({ code: true }).shape,
+    codeFile: z
+      .string()
+      .optional()
+      .describe(
+        'Path to JavaScript file containing the new function code. Must export: module.exports = async function(request) { return new Response(...) }'
+      ),
+  },
+  outputSchema: {
+    slug: z.string(),
+    codeFile: z.string().optional(),
+    function: functionOutputSchema.optional(),
+  },
+  changesResources: true,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  errorMessage: 'Error updating function',
+  async handler({ slug, name, description, status, codeFile }, context) {
+    const updateData: UpdateFunctionRequest = {};
+    if (name) {
+      updateData.name = name;
+    }
+    if (codeFile) {
+      updateData.code = await readCodeFile(codeFile);
+    }
+    if (description !== undefined) {
+      updateData.description = description;
+    }
+    if (status) {
+      updateData.status = status;
+    }
+
+    const result = await context.backend.request<FunctionResponse>(`/api/functions/${slug}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updateData),
+    });
+
+    const fileInfo = codeFile ? ` from ${codeFile}` : '';
+    return {
+      text: formatSuccessMessage(`Edge function '${slug}' updated successfully${fileInfo}`, result),
+      structuredContent: { slug, codeFile, function: result?.function },
+    };
+  },
+});
+
+export const deleteFunctionTool = defineTool({
+  name: 'delete-function',
+  group: 'functions',
+  description: 'Delete an edge function permanently',
+  inputSchema: {
+    slug: z.string().describe('The slug identifier of the function to delete'),
+  },
+  outputSchema: {
+    slug: z.string(),
+    deleted: z.boolean(),
+  },
+  changesResources: true,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  errorMessage: 'Error deleting function',
+  async handler({ slug }, context) {
+    const result = await context.backend.request(`/api/functions/${slug}`, {
+      method: 'DELETE',
+    });
+    return {
+      text: formatSuccessMessage(`Edge function '${slug}' deleted successfully`, result),
+      structuredContent: { slug, deleted: true },
+    };
+  },
+});
@@ -0,0 +1,77 @@
+import { ToolDefinition } from '../tool-registry.js';
+import { fetchDocsTool, fetchSdkDocsTool, getAnonKeyTool, downloadTemplateTool } from './instructions.js';
+import {
+  getTableSchemaTool,
+  getBackendMetadataTool,
+  runRawSqlTool,
+  runSqlTransactionTool,
+  explainQueryTool,
+  bulkUpsertTool,
+} from './database.js';
+import { createMigrationTool, migrationStatusTool, applyMigrationsTool, rollbackMigrationTool } from './migrations.js';
+import { diffSchemaTool, generateTypesTool, generateZodSchemasTool } from './schema.js';
+import { createBucketTool, listBucketsTool, deleteBucketTool } from './storage.js';
+import { createFunctionTool, getFunctionTool, updateFunctionTool, deleteFunctionTool } from './functions.js';
+import { getContainerLogsTool } from './logs.js';
+import { createDeploymentTool } from './deployment.js';
+import { queryAuditLogTool } from './audit.js';
+import { listProjectsTool, switchProjectTool } from './projects.js';
+import { fetchMoreTool } from './output.js';
+import { getConnectionStatusTool, retryConnectionTool } from './diagnostics.js';
+
+/**
+ * All Insforge tool definitions, in registration order
+ */
+export const insforgeToolDefinitions: ToolDefinition[] = [
+  // Instruction tools
+  fetchDocsTool,
+  fetchSdkDocsTool,
+  getAnonKeyTool,
+  downloadTemplateTool,
+
+  // Database tools
+  getTableSchemaTool,
+  getBackendMetadataTool,
+  runRawSqlTool,
+  runSqlTransactionTool,
+  explainQueryTool,
+  bulkUpsertTool,
+  createMigrationTool,
+  migrationStatusTool,
+  applyMigrationsTool,
+  rollbackMigrationTool,
+  diffSchemaTool,
+  generateTypesTool,
+  generateZodSchemasTool,
+
+  // Storage tools
+  createBucketTool,
+  listBucketsTool,
+  deleteBucketTool,
+
+  // Edge function tools
+  createFunctionTool,
+  getFunctionTool,
+  updateFunctionTool,
+  deleteFunctionTool,
+
+  // Container logs tools
+  getContainerLogsTool,
+
+  // Deployment tools
+  createDeploymentTool,
+
+  // Audit tools (registered only when the audit log is enabled)
+  queryAuditLogTool,
+
+  // Project profile tools (registered only when a profiles file is loaded)
+  listProjectsTool,
+  switchProjectTool,
+
+  // Paging through truncated results
+  fetchMoreTool,
+
+  // Diagnostic tools (registered only while the backend is unreachable)
+  getConnectionStatusTool,
+  retryConnectionTool,
+];
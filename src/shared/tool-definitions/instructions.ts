@@ -0,0 +1,268 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import { ChildProcess, spawn } from 'child_process';
+import { tmpdir } from 'os';
+import { docTypeSchema, sdkFeatureSchema, sdkLanguageSchema } from '@insforge/shared-schemas';
+import { formatSuccessMessage } from '../response-handler.js';
+import { defineTool, apiKeyInput, revealSecretsInput } from '../tool-registry.js';
+import { RequestCancelledError, throwIfCancelled } from '../backend-client.js';
+
+// Cap on captured template generator output
+const MAX_COMMAND_OUTPUT = 10 * 1024 * 1024; // 10MB buffer
+
+/**
+ * Kill a child process and everything it started (npx spawns the generator as a grandchild)
+ */
+function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null) {
+    return;
+  }
+
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true });
+    } else {
+      // The child leads its own process group (detached), so this reaches its descendants
+      process.kill(-child.pid, 'SIGTERM');
+    }
+  } catch {
+    // Process already exited
+  }
+}
+
+/**
+ * Run a shell command, killing it when the signal is aborted
+ */
+function runCommand(command: string, cwd: string, signal: AbortSignal): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    throwIfCancelled(signal);
+
+    const child = spawn(command, {
+      cwd,
+      shell: true,
+      detached: process.platform !== 'win32',
+      windowsHide: true,
+    });
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout?.on('data', (chunk: Buffer) => {
+      if (stdout.length < MAX_COMMAND_OUTPUT) stdout += chunk.toString();
+    });
+    child.stderr?.on('data', (chunk: Buffer) => {
+      if (stderr.length < MAX_COMMAND_OUTPUT) stderr += chunk.toString();
+    });
+
+    const onAbort = () => killProcessTree(child);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    child.on('error', (error) => {
+      signal.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      signal.removeEventListener('abort', onAbort);
+      if (signal.aborted) {
+        reject(new RequestCancelledError());
+      } else if (code !== 0) {
+        reject(new Error(`Command failed with exit code ${code}: ${stderr || stdout}`));
+      } else {
+        resolve({ stdout, stderr });
+      }
+    });
+  });
+}
+
+/**
+ * Check whether a documentation error means the endpoint doesn't exist on this backend
+ */
+function isDocumentationNotFound(error: unknown): boolean {
+  const errMsg = error instanceof Error ? error.message : '';
+  return errMsg.includes('404') || errMsg.toLowerCase().includes('not found');
+}
+
+/**
+ * Friendly message for documentation missing on older backends
+ */
+function documentationUnavailableMessage(name: string): string {
+  return `Documentation for "${name}" is not available. This is likely because your backend version is too old and doesn't support this documentation endpoint yet. This won't affect the functionality of the tools - they will still work correctly.`;
+}
+
+export const fetchDocsTool = defineTool({
+  name: 'fetch-docs',
+  group: 'instructions',
+  description: 'Fetch Insforge documentation. Use "instructions" for essential backend setup (MANDATORY FIRST), or select specific SDK docs for database, auth, storage, functions, or AI integration.',
+  inputSchema: {
+    docType: docTypeSchema,
+  },
+  outputSchema: {
+    docType: z.string(),
+    available: z.boolean().describe('False when the backend does not serve this documentation'),
+    content: z.string(),
+  },
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  errorMessage: 'Error fetching documentation',
+  async handler({ docType }, context) {
+    try {
+      const content = await context.fetchDocumentation(docType);
+      return { text: content, structuredContent: { docType, available: true, content } };
+    } catch (error) {
+      // Friendly message for not found (likely due to old backend version)
+      if (isDocumentationNotFound(error)) {
+        const content = documentationUnavailableMessage(docType);
+        return { text: content, structuredContent: { docType, available: false, content } };
+      }
+      throw error;
+    }
+  },
+});
+
+export const fetchSdkDocsTool = defineTool({
+  name: 'fetch-sdk-docs',
+  group: 'instructions',
+  description: `Fetch Insforge SDK documentation for a specific feature and language combination.
+
+Supported features: ${sdkFeatureSchema.options.join(', ')}
+Supported languages: ${sdkLanguageSchema.options.join(', ')}`,
+  inputSchema: {
+    sdkFeature: sdkFeatureSchema,
+    sdkLanguage: sdkLanguageSchema,
+  },
+  outputSchema: {
+    sdkFeature: z.string(),
+    sdkLanguage: z.string(),
+    available: z.boolean().describe('False when the backend does not serve this documentation'),
+    content: z.string(),
+  },
+  version: { minVersion: '1.5.1' },
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  errorMessage: 'Error fetching SDK documentation',
+  async handler({ sdkFeature, sdkLanguage }, context) {
+    try {
+      const content = await context.fetchSDKDocumentation(sdkFeature, sdkLanguage);
+      return { text: content, structuredContent: { sdkFeature, sdkLanguage, available: true, content } };
+    } catch (error) {
+      // Friendly message for not found (likely due to old backend version)
+      if (isDocumentationNotFound(error)) {
+        const content = documentationUnavailableMessage(`${sdkFeature}-${sdkLanguage}`);
+        return { text: content, structuredContent: { sdkFeature, sdkLanguage, available: false, content } };
+      }
+      throw error;
+    }
+  },
+});
+
+export const getAnonKeyTool = defineTool({
+  name: 'get-anon-key',
+  group: 'instructions',
+  description: 'Generate an anonymous JWT token that never expires. Requires admin API key. Use this for client-side applications that need public access. The token is masked in the result unless revealSecrets is set.',
+  inputSchema: {
+    ...apiKeyInput,
+    ...revealSecretsInput,
+  },
+  outputSchema: {
+    accessToken: z.string().describe('Anonymous JWT for client-side use'),
+  },
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  errorMessage: 'Error generating anonymous token',
+  async handler(_args, context) {
+    const result = await context.backend.request<{ accessToken: string }>('/api/auth/tokens/anon', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    return {
+      text: formatSuccessMessage('Anonymous token generated', result),
+      structuredContent: { accessToken: result.accessToken },
+    };
+  },
+});
+
+export const downloadTemplateTool = defineTool({
+  name: 'download-template',
+  group: 'instructions',
+  description: 'CRITICAL: MANDATORY FIRST STEP for all new InsForge projects. Download pre-configured starter template to a temporary directory. After download, you MUST copy files to current directory using the provided command.',
+  inputSchema: {
+    frame: z
+      .enum(['react', 'nextjs'])
+      .describe('Framework to use for the template (support React and Next.js)'),
+    projectName: z
+      .string()
+      .optional()
+      .describe('Name for the project directory (optional, defaults to "insforge-react")'),
+  },
+  outputSchema: {
+    frame: z.enum(['react', 'nextjs']),
+    templatePath: z.string().describe('Temporary directory containing the downloaded template'),
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  errorMessage: 'Error downloading template',
+  async handler({ frame, projectName }, context, { signal }) {
+    // Get the anon key from backend
+    const result = await context.backend.request<{ accessToken: string }>('/api/auth/tokens/anon', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    const anonKey = result.accessToken;
+
+    if (!anonKey) {
+      throw new Error('Failed to retrieve anon key from backend');
+    }
+
+    // Create temp directory for download
+    const tempDir = tmpdir();
+    const targetDir = projectName || `insforge-${frame}`;
+    const templatePath = `${tempDir}/${targetDir}`;
+
+    console.error(`[download-template] Target path: ${templatePath}`);
+
+    // Check if template already exists in temp, remove it first
+    try {
+      const stats = await fs.stat(templatePath);
+      if (stats.isDirectory()) {
+        console.error(`[download-template] Removing existing template at ${templatePath}`);
+        await fs.rm(templatePath, { recursive: true, force: true });
+      }
+    } catch {
+      // Directory doesn't exist, which is fine
+    }
+
+    const command = `npx create-insforge-app ${targetDir} --frame ${frame} --base-url ${context.apiBaseUrl} --anon-key ${anonKey} --skip-install`;
+
+    // Execute the npx command in temp directory
+    // A cancelled or failed run leaves a partial template behind, so remove it
+    let stdout: string;
+    let stderr: string;
+    try {
+      ({ stdout, stderr } = await runCommand(command, tempDir, signal));
+    } catch (error) {
+      await fs.rm(templatePath, { recursive: true, force: true });
+      throw error;
+    }
+
+    // Check if command was successful (basic validation)
+    const output = stdout || stderr || '';
+    if (output.toLowerCase().includes('error') && !output.includes('successfully')) {
+      throw new Error(`Failed to download template: ${output}`);
+    }
+
+    return {
+      text: `✅ React template downloaded successfully
+
+📁 Template Location: ${templatePath}
+
+⚠️  IMPORTANT: The template is in a temporary directory and NOT in your current working directory.
+
+🔴 CRITICAL NEXT STEP REQUIRED:
+You MUST copy ALL files (INCLUDING HIDDEN FILES like .env, .gitignore, etc.) from the temporary directory to your current project directory.
+
+Copy all files from: ${templatePath}
+To: Your current project directory
+`,
+      structuredContent: { frame, templatePath },
+    };
+  },
+});
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { handleApiResponse, formatSuccessMessage } from '../response-handler.js';
+import { defineTool, apiKeyInput, paginatedOutput, ToolContext } from '../tool-registry.js';
+
+export const logSourceSchema = z.enum(['insforge.logs', 'postgREST.logs', 'postgres.logs', 'function.logs']);
+
+/**
+ * Fetch the latest logs for a source, falling back to the legacy analytics endpoint on older backends
+ */
+export async function fetchContainerLogs(
+  context: ToolContext,
+  source: z.infer<typeof logSourceSchema>,
+  limit?: number
+): Promise<any> {
+  const queryParams = new URLSearchParams();
+  if (limit) queryParams.append('limit', limit.toString());
+
+  let response = await context.backend.fetch(`/api/logs/${source}?${queryParams}`);
+
+  // Fallback to legacy endpoint if 404
+  if (response.status === 404) {
+    response = await context.backend.fetch(`/api/logs/analytics/${source}?${queryParams}`);
+  }
+
+  return handleApiResponse(response);
+}
+
+export const getContainerLogsTool = defineTool({
+  name: 'get-container-logs',
+  group: 'logs',
+  description: 'Get latest logs from a specific container/service. Use this to help debug problems with your app.',
+  inputSchema: {
+    ...apiKeyInput,
+    source: logSourceSchema.describe('Log source to retrieve'),
+    limit: z.number().optional().default(20).describe('Number of logs to return (default: 20)'),
+  },
+  outputSchema: {
+    source: z.string(),
+    logs: z.array(z.record(z.unknown())),
+    ...paginatedOutput,
+  },
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  errorMessage: 'Error retrieving container logs',
+  async handler({ source, limit }, context) {
+    const result = await fetchContainerLogs(context, source, limit);
+    return {
+      text: formatSuccessMessage(`Latest logs from ${source}`, result),
+      structuredContent: { source, logs: Array.isArray(result) ? result : result.logs ?? [] },
+    };
+  },
+});
@@ -0,0 +1,361 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ToolContext, defineTool, apiKeyInput, localFilesystemAvailability } from '../tool-registry.js';
+import { classifySql } from '../sql-classifier.js';
+import { TransactionStatement, buildTransactionSql, parseTransactionFailure } from '../sql-transaction.js';
+import {
+  AppliedMigration,
+  CREATE_MIGRATIONS_TABLE_SQL,
+  MIGRATIONS_DIRECTORY,
+  MIGRATIONS_TABLE,
+  MIGRATIONS_TABLE_EXISTS_SQL,
+  MIGRATION_STATES,
+  MigrationFile,
+  MigrationStatus,
+  SELECT_APPLIED_MIGRATIONS_SQL,
+  migrationSlug,
+  migrationStatements,
+  migrationStatuses,
+  migrationVersion,
+  readMigrations,
+} from '../migrations.js';
+import { confirmDangerousSql, executeRawSql } from './database.js';
+
+// Migrations rolled back by one call; going back further should be deliberate
+const MAX_ROLLBACK_STEPS = 10;
+
+const projectDirectoryInput = {
+  projectDirectory: z
+    .string()
+    .describe(`Absolute path to the project directory; migrations live in its ${MIGRATIONS_DIRECTORY}/ subdirectory`),
+};
+
+const migrationOutputSchema = z.object({
+  version: z.string(),
+  name: z.string(),
+});
+
+/**
+ * The migrations directory of an absolute project directory
+ */
+function migrationsDirectory(projectDirectory: string): string {
+  const isAbsolutePath = projectDirectory.startsWith('/') || /^[a-zA-Z]:[/\\]/.test(projectDirectory);
+  if (!isAbsolutePath) {
+    throw new Error(`projectDirectory must be an absolute path, not a relative path like "${projectDirectory}"`);
+  }
+  return path.join(projectDirectory, MIGRATIONS_DIRECTORY);
+}
+
+/**
+ * Applied migrations from the backend; none if the migrations table does not exist yet
+ */
+async function fetchAppliedMigrations(context: ToolContext): Promise<AppliedMigration[]> {
+  const table = await executeRawSql(context, MIGRATIONS_TABLE_EXISTS_SQL);
+  if (!table?.rows?.[0]?.exists) {
+    return [];
+  }
+  const result = await executeRawSql<AppliedMigration>(context, SELECT_APPLIED_MIGRATIONS_SQL);
+  return result?.rows ?? [];
+}
+
+function migrationLabel(migration: { version: string; name: string }): string {
+  return `${migration.version}_${migration.name}`;
+}
+
+/**
+ * A migration file split into statements, followed by the statement recording it
+ */
+interface MigrationRun {
+  file: MigrationFile;
+  fileName: string;
+  statements: TransactionStatement[];
+}
+
+/**
+ * Prepare the up or down file of a migration, so every file is checked before any runs
+ */
+function prepareMigration(file: MigrationFile, direction: 'up' | 'down'): MigrationRun {
+  const fileName = path.basename(direction === 'up' ? file.upPath : file.downPath!);
+  const record = direction === 'up'
+    ? {
+      query: `INSERT INTO public.${MIGRATIONS_TABLE} (version, name, checksum) VALUES ($1, $2, $3)`,
+      params: [file.version, file.name, file.checksum],
+    }
+    : { query: `DELETE FROM public.${MIGRATIONS_TABLE} WHERE version = $1`, params: [file.version] };
+
+  return {
+    file,
+    fileName,
+    statements: [...migrationStatements(direction === 'up' ? file.up : file.down!, fileName), record],
+  };
+}
+
+/**
+ * Run a migration file and record it, in one transaction
+ */
+async function runMigration(context: ToolContext, { fileName, statements }: MigrationRun): Promise<void> {
+  try {
+    await executeRawSql(context, buildTransactionSql(statements));
+  } catch (error) {
+    const failure = error instanceof Error ? parseTransactionFailure(error.message) : null;
+    if (!failure) {
+      throw error;
+    }
+    const step = failure.statement === statements.length
+      ? `recording it in ${MIGRATIONS_TABLE}`
+      : `statement ${failure.statement}`;
+    throw new Error(`${fileName} failed at ${step} and was rolled back: ${failure.error}`);
+  }
+}
+
+/**
+ * SQL of several migration files for showing in a confirmation, each under its file name
+ */
+function confirmationSql(files: { path: string; sql: string }[]): string {
+  return files.map((file) => `-- ${path.basename(file.path)}\n${file.sql.trim()}`).join('\n\n');
+}
+
+function describeStatus(status: MigrationStatus): string {
+  const applied = status.appliedAt ? ` (applied ${status.appliedAt})` : '';
+  return `${migrationLabel(status)}: ${status.state}${applied}`;
+}
+
+export const createMigrationTool = defineTool({
+  name: 'create-migration',
+  group: 'database',
+  description: `Create a timestamped migration in the project's ${MIGRATIONS_DIRECTORY}/ directory: an up file with the schema change and a down file undoing it. Apply it with apply-migrations.`,
+  inputSchema: {
+    ...projectDirectoryInput,
+    name: z.string().describe('What the migration does, e.g. "add posts table"'),
+    up: z.string().optional().describe('SQL applying the change; a placeholder comment if omitted'),
+    down: z.string().optional().describe('SQL undoing the change; a placeholder comment if omitted'),
+  },
+  outputSchema: {
+    version: z.string(),
+    upPath: z.string(),
+    downPath: z.string(),
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+  checkAvailability: localFilesystemAvailability,
+  errorMessage: 'Error creating migration',
+  async handler({ projectDirectory, name, up, down }) {
+    const directory = migrationsDirectory(projectDirectory);
+    const slug = migrationSlug(name);
+    const existing = await readMigrations(directory);
+
+    // Versions must increase even when two migrations are created within a second
+    let version = migrationVersion(new Date());
+    const latest = existing.at(-1)?.version;
+    if (latest && version <= latest) {
+      version = (BigInt(latest) + 1n).toString();
+    }
+
+    await fs.mkdir(directory, { recursive: true });
+    const upPath = path.join(directory, `${version}_${slug}.up.sql`);
+    const downPath = path.join(directory, `${version}_${slug}.down.sql`);
+    await fs.writeFile(upPath, `${(up ?? `-- ${name}`).trim()}\n`, { flag: 'wx' });
+    await fs.writeFile(downPath, `${(down ?? `-- Undo: ${name}`).trim()}\n`, { flag: 'wx' });
+
+    return {
+      text: `Created migration ${version}_${slug}:\n${upPath}\n${downPath}`,
+      structuredContent: { version, upPath, downPath },
+    };
+  },
+});
+
+export const migrationStatusTool = defineTool({
+  name: 'migration-status',
+  group: 'database',
+  description: `Compare the project's ${MIGRATIONS_DIRECTORY}/ directory with the migrations applied to the backend: applied, pending, out-of-order (not applied but older than the latest applied one), modified (edited after being applied) or missing (applied but no local file)`,
+  inputSchema: {
+    ...apiKeyInput,
+    ...projectDirectoryInput,
+  },
+  outputSchema: {
+    directory: z.string(),
+    migrations: z.array(migrationOutputSchema.extend({
+      state: z.enum(MIGRATION_STATES),
+      appliedAt: z.string().optional(),
+    })),
+  },
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  checkAvailability: localFilesystemAvailability,
+  errorMessage: 'Error getting migration status',
+  async handler({ projectDirectory }, context) {
+    const directory = migrationsDirectory(projectDirectory);
+    const statuses = migrationStatuses(await readMigrations(directory), await fetchAppliedMigrations(context));
+
+    const counts = MIGRATION_STATES
+      .map((state) => [state, statuses.filter((status) => status.state === state).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([state, count]) => `${count} ${state}`);
+    const lines = [
+      statuses.length > 0 ? `Migrations in ${directory}: ${counts.join(', ')}` : `No migrations in ${directory}`,
+      ...statuses.map(describeStatus),
+    ];
+    if (statuses.some((status) => status.state === 'modified')) {
+      lines.push('', 'Modified migrations were edited after being applied. apply-migrations refuses to run until they are restored; put further changes in a new migration.');
+    }
+    if (statuses.some((status) => status.state === 'out-of-order')) {
+      lines.push('', 'Out-of-order migrations are older than the latest applied one, usually because they come from another branch. apply-migrations refuses to run until they are renamed to a newer version.');
+    }
+
+    return {
+      text: lines.join('\n'),
+      structuredContent: {
+        directory,
+        migrations: statuses.map(({ version, name, state, appliedAt }) => ({ version, name, state, appliedAt })),
+      },
+    };
+  },
+});
+
+export const applyMigrationsTool = defineTool({
+  name: 'apply-migrations',
+  group: 'database',
+  description: `Apply pending migrations from the project's ${MIGRATIONS_DIRECTORY}/ directory in version order, each in its own transaction. Refuses to run if an applied migration file was edited or an unapplied one is older than the latest applied migration. Dangerous statements need confirmation as in run-raw-sql.`,
+  inputSchema: {
+    ...apiKeyInput,
+    ...projectDirectoryInput,
+    confirm: z
+      .string()
+      .optional()
+      .describe('Token from a "Confirmation required" response, passed only after the user approved the migrations'),
+  },
+  outputSchema: {
+    applied: z.array(migrationOutputSchema),
+  },
+  changesResources: true,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false },
+  checkAvailability: localFilesystemAvailability,
+  errorMessage: 'Error applying migrations',
+  async handler({ projectDirectory, confirm }, context, invocation) {
+    const directory = migrationsDirectory(projectDirectory);
+    const statuses = migrationStatuses(await readMigrations(directory), await fetchAppliedMigrations(context));
+
+    const modified = statuses.filter((status) => status.state === 'modified');
+    if (modified.length > 0) {
+      throw new Error(
+        `Applied migrations were edited since: ${modified.map(migrationLabel).join(', ')}. ` +
+          'Restore their original content and put further changes in a new migration. Nothing was applied.'
+      );
+    }
+
+    // Applying them now would run them after migrations that were written without them
+    const outOfOrder = statuses.filter((status) => status.state === 'out-of-order');
+    if (outOfOrder.length > 0) {
+      const latest = statuses.filter((status) => status.appliedAt).at(-1)!;
+      throw new Error(
+        `Unapplied migrations ${outOfOrder.map(migrationLabel).join(', ')} are older than the latest applied migration ${migrationLabel(latest)}. ` +
+          'Rename them to a newer version (check they still apply on top of the current schema) and run apply-migrations again. Nothing was applied.'
+      );
+    }
+
+    const pending = statuses.flatMap((status) => (status.state === 'pending' && status.file ? [status.file] : []));
+    if (pending.length === 0) {
+      return {
+        text: `No pending migrations in ${directory}`,
+        structuredContent: { applied: [] },
+      };
+    }
+
+    const runs = pending.map((file) => prepareMigration(file, 'up'));
+    const sql = confirmationSql(pending.map((file) => ({ path: file.upPath, sql: file.up })));
+    await confirmDangerousSql(
+      classifySql(sql),
+      sql,
+      JSON.stringify(pending.map((file) => [file.version, file.checksum])),
+      confirm,
+      context,
+      invocation
+    );
+
+    await executeRawSql(context, CREATE_MIGRATIONS_TABLE_SQL);
+    const applied: MigrationFile[] = [];
+    for (const run of runs) {
+      try {
+        await runMigration(context, run);
+      } catch (error) {
+        const done = applied.length > 0 ? `Applied ${applied.map(migrationLabel).join(', ')}. ` : '';
+        throw new Error(`${done}${error instanceof Error ? error.message : String(error)}. Later migrations were not run.`);
+      }
+      applied.push(run.file);
+    }
+
+    return {
+      text: `Applied ${applied.length} ${applied.length === 1 ? 'migration' : 'migrations'}:\n${applied.map(migrationLabel).join('\n')}`,
+      structuredContent: { applied: applied.map(({ version, name }) => ({ version, name })) },
+    };
+  },
+});
+
+export const rollbackMigrationTool = defineTool({
+  name: 'rollback-migration',
+  group: 'database',
+  description: `Roll back the most recently applied migrations by running their down files from the project's ${MIGRATIONS_DIRECTORY}/ directory, newest first, each in its own transaction. Dangerous statements need confirmation as in run-raw-sql.`,
+  inputSchema: {
+    ...apiKeyInput,
+    ...projectDirectoryInput,
+    steps: z.number().int().min(1).max(MAX_ROLLBACK_STEPS).optional().default(1).describe('How many migrations to roll back'),
+    confirm: z
+      .string()
+      .optional()
+      .describe('Token from a "Confirmation required" response, passed only after the user approved the rollback'),
+  },
+  outputSchema: {
+    rolledBack: z.array(migrationOutputSchema),
+  },
+  changesResources: true,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false },
+  checkAvailability: localFilesystemAvailability,
+  errorMessage: 'Error rolling back migrations',
+  async handler({ projectDirectory, steps, confirm }, context, invocation) {
+    const directory = migrationsDirectory(projectDirectory);
+    const statuses = migrationStatuses(await readMigrations(directory), await fetchAppliedMigrations(context));
+    const targets = statuses.filter((status) => status.appliedAt).reverse().slice(0, steps);
+    if (targets.length === 0) {
+      return {
+        text: 'No applied migrations to roll back',
+        structuredContent: { rolledBack: [] },
+      };
+    }
+
+    const files = targets.map((status) => {
+      if (!status.file) {
+        throw new Error(`${migrationLabel(status)} was applied but its files are not in ${directory}. Nothing was rolled back.`);
+      }
+      if (status.file.down === undefined) {
+        throw new Error(`${migrationLabel(status)} has no down file. Nothing was rolled back.`);
+      }
+      return status.file;
+    });
+
+    const runs = files.map((file) => prepareMigration(file, 'down'));
+    const sql = confirmationSql(files.map((file) => ({ path: file.downPath!, sql: file.down! })));
+    await confirmDangerousSql(
+      classifySql(sql),
+      sql,
+      JSON.stringify(files.map((file) => [file.version, file.down])),
+      confirm,
+      context,
+      invocation
+    );
+
+    const rolledBack: MigrationFile[] = [];
+    for (const run of runs) {
+      try {
+        await runMigration(context, run);
+      } catch (error) {
+        const done = rolledBack.length > 0 ? `Rolled back ${rolledBack.map(migrationLabel).join(', ')}. ` : '';
+        throw new Error(`${done}${error instanceof Error ? error.message : String(error)}`);
+      }
+      rolledBack.push(run.file);
+    }
+
+    return {
+      text: `Rolled back ${rolledBack.length} ${rolledBack.length === 1 ? 'migration' : 'migrations'}:\n${rolledBack.map(migrationLabel).join('\n')}`,
+      structuredContent: { rolledBack: rolledBack.map(({ version, name }) => ({ version, name })) },
+    };
+  },
+});
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { defineTool, paginatedOutput } from '../tool-registry.js';
+import { describePage } from '../output-pager.js';
+
+export const fetchMoreTool = defineTool({
+  name: 'fetch-more',
+  group: 'output',
+  description: 'Read the next page of a tool result that was truncated to fit the output budget. Results stay available for 30 minutes within this session.',
+  inputSchema: {
+    cursor: z.string().describe('Cursor from a truncated result, e.g. "3f9a1c2b7d4e.40000"'),
+  },
+  outputSchema: {
+    tool: z.string().describe('Tool that produced the result'),
+    offset: z.number().describe('Character offset of this page in the full result'),
+    end: z.number(),
+    totalLength: z.number(),
+    ...paginatedOutput,
+  },
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  // Cached results don't need the backend
+  availableWhileDegraded: true,
+  errorMessage: 'Error fetching more output',
+  async handler({ cursor }, context) {
+    const page = context.outputPager.read(cursor);
+
+    return {
+      text: `${page.text}\n\n${describePage(page)}`,
+      structuredContent: {
+        tool: page.toolName,
+        offset: page.offset,
+        end: page.end,
+        totalLength: page.totalLength,
+        nextCursor: page.nextCursor,
+      },
+    };
+  },
+});
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { ToolContext, defineTool } from '../tool-registry.js';
+
+const projectOutputSchema = z.object({
+  name: z.string(),
+  apiBaseUrl: z.string(),
+  description: z.string().optional(),
+  apiKeyConfigured: z.boolean(),
+  active: z.boolean(),
+});
+
+const projectsAvailability = (context: ToolContext) => (context.projects ? null : 'no project profiles configured');
+
+export const listProjectsTool = defineTool({
+  name: 'list-projects',
+  group: 'projects',
+  description: 'List the project profiles (e.g. dev, staging, prod) this MCP server can switch between, and which one is active.',
+  inputSchema: {},
+  outputSchema: {
+    projects: z.array(projectOutputSchema),
+  },
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  availableWhileDegraded: true,
+  checkAvailability: projectsAvailability,
+  errorMessage: 'Error listing projects',
+  async handler(_args, context) {
+    if (!context.projects) {
+      throw new Error('No project profiles are configured for this server.');
+    }
+
+    const projects = context.projects.list();
+    const lines = projects.map((project) =>
+      `${project.active ? '* ' : '- '}${project.name}: ${project.apiBaseUrl}${project.description ? ` (${project.description})` : ''}`
+    );
+
+    return {
+      text: `Project profiles (* = active):\n${lines.join('\n')}`,
+      structuredContent: { projects },
+    };
+  },
+});
+
+export const switchProjectTool = defineTool({
+  name: 'switch-project',
+  group: 'projects',
+  description: 'Point all Insforge tools at another project profile for the rest of the session. The tool list is refreshed for the new backend version.',
+  inputSchema: {
+    profile: z.string().describe('Profile name from list-projects, e.g. "staging"'),
+  },
+  outputSchema: {
+    profile: z.string(),
+    apiBaseUrl: z.string(),
+    backendVersion: z.string(),
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+  // Switching changes which backend is used, not the backend itself
+  allowInReadOnlyMode: true,
+  // Lets the session move off an unreachable backend
+  availableWhileDegraded: true,
+  checkAvailability: projectsAvailability,
+  errorMessage: 'Error switching project',
+  async handler({ profile }, context) {
+    if (!context.projects) {
+      throw new Error('No project profiles are configured for this server.');
+    }
+
+    await context.projects.switchTo(profile);
+
+    return {
+      text: `✅ Switched to project profile '${profile}' at ${context.apiBaseUrl} (backend version ${context.backendVersion}). Refresh your tool list if it has not updated.`,
+      structuredContent: {
+        profile,
+        apiBaseUrl: context.apiBaseUrl,
+        backendVersion: context.backendVersion,
+      },
+    };
+  },
+});
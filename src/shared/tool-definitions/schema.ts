@@ -0,0 +1,259 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ToolContext, defineTool, apiKeyInput, localFilesystemAvailability, paginatedOutput } from '../tool-registry.js';
+import { classifySql } from '../sql-classifier.js';
+import {
+  LIVE_SCHEMA_CATALOG_SQL,
+  LiveSchema,
+  SCHEMA_DIFFERENCE_KINDS,
+  diffSchema,
+  isInternalTable,
+  parseSchemaFile,
+} from '../schema-diff.js';
+import { COLUMN_TYPE_CATALOG_SQL, MetadataTable, parseColumnTypeCatalog } from '../table-metadata.js';
+import { TYPES_MODULE_HEADER, generateTypesModule } from '../typescript-types.js';
+import { CHECK_CONSTRAINTS_SQL, CheckConstraint, ZOD_MODULE_HEADER, generateZodModule } from '../zod-schemas.js';
+import { executeRawSql } from './database.js';
+
+/**
+ * JSON column of a raw SQL row; json columns may arrive parsed or as text
+ */
+function jsonColumn<T>(value: unknown, fallback: T): T {
+  if (typeof value === 'string') {
+    return JSON.parse(value) as T;
+  }
+  return (value as T | null | undefined) ?? fallback;
+}
+
+/**
+ * Names of the tables listed by /api/metadata
+ */
+async function fetchTableNames(context: ToolContext): Promise<string[]> {
+  const metadata = await context.backend.request<{ database?: { tables?: { tableName: string }[] } }>('/api/metadata');
+  return (metadata?.database?.tables ?? []).map((table) => table.tableName);
+}
+
+// Table metadata requests in flight at once, so a large schema does not flood the backend
+const MAX_CONCURRENT_TABLE_REQUESTS = 4;
+
+/**
+ * Columns of each table from /api/metadata/{table}
+ * Requests run a few at a time; after a failure no new ones are started
+ */
+async function fetchTables(context: ToolContext, tables: string[]): Promise<MetadataTable[]> {
+  const schemas: (Partial<MetadataTable> | undefined)[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < tables.length) {
+      const index = next++;
+      try {
+        schemas[index] = await context.backend.request<Partial<MetadataTable>>(`/api/metadata/${encodeURIComponent(tables[index])}`);
+      } catch (error) {
+        next = tables.length;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_TABLE_REQUESTS, tables.length) }, worker));
+  return tables.map((tableName, index) => ({ tableName, columns: schemas[index]?.columns ?? [] }));
+}
+
+/**
+ * Live schema of the given tables: columns from /api/metadata, indexes, policies and RLS from the catalogs
+ */
+async function fetchLiveSchema(context: ToolContext, tables: string[]): Promise<LiveSchema> {
+  const [catalog, tableSchemas] = await Promise.all([
+    executeRawSql(context, LIVE_SCHEMA_CATALOG_SQL),
+    fetchTables(context, tables),
+  ]);
+
+  const row = catalog?.rows?.[0] ?? {};
+  return {
+    columns: new Map(tableSchemas.map((table) => [table.tableName, table.columns])),
+    indexes: jsonColumn(row.indexes, []),
+    policies: jsonColumn(row.policies, []),
+    rlsTables: jsonColumn(row.rlsTables, []),
+  };
+}
+
+/**
+ * Count statements by keyword, e.g. "2 CREATE FUNCTION, 1 GRANT"
+ */
+function countKeywords(keywords: string[]): string {
+  const counts = new Map<string, number>();
+  keywords.forEach((keyword) => counts.set(keyword, (counts.get(keyword) ?? 0) + 1));
+  return [...counts].map(([keyword, count]) => `${count} ${keyword}`).join(', ');
+}
+
+export const diffSchemaTool = defineTool({
+  name: 'diff-schema',
+  group: 'database',
+  description: 'Compare a local declarative schema file (CREATE TABLE, CREATE INDEX, CREATE POLICY, ALTER TABLE ... ENABLE ROW LEVEL SECURITY) with the backend: missing or extra tables, columns, indexes and RLS policies, and column type or nullability changes. Optionally returns the SQL making the backend match the file; it is not run.',
+  inputSchema: {
+    ...apiKeyInput,
+    schemaFile: z.string().describe('Absolute path to the schema file'),
+    generateSql: z.boolean().optional().default(false).describe('Also return the statements making the backend match the file'),
+  },
+  outputSchema: {
+    differences: z.array(z.object({
+      kind: z.enum(SCHEMA_DIFFERENCE_KINDS),
+      table: z.string(),
+      name: z.string().optional(),
+      detail: z.string(),
+      statement: z.string().optional(),
+    })),
+    skipped: z.array(z.string()).describe('Leading keywords of statements in the file that were not compared'),
+    ...paginatedOutput,
+  },
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  checkAvailability: localFilesystemAvailability,
+  errorMessage: 'Error diffing schema',
+  async handler({ schemaFile, generateSql }, context) {
+    const isAbsolutePath = schemaFile.startsWith('/') || /^[a-zA-Z]:[/\\]/.test(schemaFile);
+    if (!isAbsolutePath) {
+      throw new Error(`schemaFile must be an absolute path, not a relative path like "${schemaFile}"`);
+    }
+
+    const declared = parseSchemaFile(await fs.readFile(schemaFile, 'utf-8'));
+    if (declared.tables.length === 0 && declared.indexes.length === 0 && declared.policies.length === 0) {
+      throw new Error(`${schemaFile} has no CREATE TABLE, CREATE INDEX or CREATE POLICY statements for the public schema`);
+    }
+
+    const liveTables = await fetchTableNames(context);
+    const compared = declared.tables.map((table) => table.name).filter((table) => liveTables.includes(table));
+    const differences = diffSchema(declared, await fetchLiveSchema(context, compared), liveTables);
+
+    const lines = [
+      differences.length > 0
+        ? `${schemaFile} differs from the backend in ${differences.length} ${differences.length === 1 ? 'place' : 'places'}:`
+        : `The backend matches ${schemaFile}`,
+      ...differences.map((difference) => `- ${difference.kind}: ${difference.detail}`),
+    ];
+    if (declared.skipped.length > 0) {
+      lines.push('', `Not compared: ${countKeywords(declared.skipped)}`);
+    }
+
+    const statements = differences.flatMap((difference) => (difference.statement ? [difference.statement] : []));
+    if (generateSql && statements.length > 0) {
+      const classification = classifySql(statements.join('\n'));
+      const reasons = [...new Set(classification.statements.flatMap((statement) => (statement.reason ? [statement.reason] : [])))];
+      lines.push('', 'SQL making the backend match the file (not run; review it, then apply it as a migration or with run-sql-transaction):');
+      if (reasons.length > 0) {
+        lines.push(`-- Dangerous: ${reasons.join('; ')}`);
+      }
+      lines.push(...statements);
+    }
+
+    return {
+      text: lines.join('\n'),
+      structuredContent: {
+        differences: differences.map(({ statement, ...difference }) => (generateSql ? { ...difference, statement } : difference)),
+        skipped: declared.skipped,
+      },
+    };
+  },
+});
+
+/**
+ * Write a generated file unless it already has this content
+ * An existing file is only replaced if it starts with the generator's header, so a mistyped
+ * path cannot overwrite hand-written code
+ * @returns Whether the file changed
+ */
+async function writeGeneratedFile(outputPath: string, content: string, header: string): Promise<boolean> {
+  const isAbsolutePath = outputPath.startsWith('/') || /^[a-zA-Z]:[/\\]/.test(outputPath);
+  if (!isAbsolutePath) {
+    throw new Error(`outputPath must be an absolute path, not a relative path like "${outputPath}"`);
+  }
+
+  const current = await fs.readFile(outputPath, 'utf-8').catch(() => null);
+  if (current === content) {
+    return false;
+  }
+  if (current !== null && !current.startsWith(header)) {
+    throw new Error(`${outputPath} exists and was not generated by this tool; choose another path or delete the file first`);
+  }
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, content);
+  return true;
+}
+
+export const generateTypesTool = defineTool({
+  name: 'generate-types',
+  group: 'database',
+  description: 'Generate a TypeScript module from the backend schema (Row, Insert and Update types per table, enums, nullable columns and foreign key relationships) and write it to a file. The output is stable, so regenerating after a schema change gives a reviewable diff.',
+  inputSchema: {
+    ...apiKeyInput,
+    outputPath: z.string().describe('Absolute path of the .ts file to write, e.g. /Users/name/project/src/database.types.ts'),
+  },
+  outputSchema: {
+    path: z.string(),
+    tables: z.number(),
+    enums: z.number(),
+    changed: z.boolean().describe('False if the file already had this content'),
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+  checkAvailability: localFilesystemAvailability,
+  errorMessage: 'Error generating types',
+  async handler({ outputPath }, context) {
+    const tableNames = (await fetchTableNames(context)).filter((table) => !isInternalTable(table));
+    const [tables, catalog] = await Promise.all([
+      fetchTables(context, tableNames),
+      executeRawSql(context, COLUMN_TYPE_CATALOG_SQL),
+    ]);
+    const typeCatalog = parseColumnTypeCatalog(catalog?.rows?.[0]);
+
+    const changed = await writeGeneratedFile(outputPath, generateTypesModule(tables, typeCatalog), TYPES_MODULE_HEADER);
+    const summary = `${tables.length} ${tables.length === 1 ? 'table' : 'tables'}, ${typeCatalog.enums.size} ${typeCatalog.enums.size === 1 ? 'enum' : 'enums'}`;
+    return {
+      text: changed ? `Wrote types for ${summary} to ${outputPath}` : `${outputPath} is up to date (${summary})`,
+      structuredContent: { path: outputPath, tables: tables.length, enums: typeCatalog.enums.size, changed },
+    };
+  },
+});
+
+export const generateZodSchemasTool = defineTool({
+  name: 'generate-zod-schemas',
+  group: 'database',
+  description: 'Generate a module of zod schemas validating inserts and updates of each backend table (column types, varchar lengths, literal defaults, nullability, and single-column CHECK constraints such as ranges, lengths, IN lists and regular expressions) and write it to a file. The output is stable, so regenerating after a schema change gives a reviewable diff.',
+  inputSchema: {
+    ...apiKeyInput,
+    outputPath: z.string().describe('Absolute path of the .ts file to write, e.g. /Users/name/project/src/database.schemas.ts'),
+  },
+  outputSchema: {
+    path: z.string(),
+    tables: z.number(),
+    untranslatedChecks: z.number().describe('CHECK constraint terms left as comments because zod has no equivalent'),
+    changed: z.boolean().describe('False if the file already had this content'),
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+  checkAvailability: localFilesystemAvailability,
+  errorMessage: 'Error generating zod schemas',
+  async handler({ outputPath }, context) {
+    const tableNames = (await fetchTableNames(context)).filter((table) => !isInternalTable(table));
+    const [tables, catalog, checks] = await Promise.all([
+      fetchTables(context, tableNames),
+      executeRawSql(context, COLUMN_TYPE_CATALOG_SQL),
+      executeRawSql(context, CHECK_CONSTRAINTS_SQL),
+    ]);
+    const constraints: CheckConstraint[] = (checks?.rows ?? []).map((row: Record<string, unknown>) => ({
+      table: String(row.table),
+      columns: jsonColumn<string[]>(row.columns, []),
+      definition: String(row.definition),
+    }));
+
+    const content = generateZodModule(tables, parseColumnTypeCatalog(catalog?.rows?.[0]), constraints);
+    const untranslatedChecks = content.match(/\/\/ CHECK not translated:/g)?.length ?? 0;
+    const changed = await writeGeneratedFile(outputPath, content, ZOD_MODULE_HEADER);
+    const summary = `${tables.length} ${tables.length === 1 ? 'table' : 'tables'}`;
+    const lines = [changed ? `Wrote zod schemas for ${summary} to ${outputPath}` : `${outputPath} is up to date (${summary})`];
+    if (untranslatedChecks > 0) {
+      lines.push(`${untranslatedChecks} CHECK constraint ${untranslatedChecks === 1 ? 'term was' : 'terms were'} left as comments; validate ${untranslatedChecks === 1 ? 'it' : 'them'} separately`);
+    }
+    return {
+      text: lines.join('\n'),
+      structuredContent: { path: outputPath, tables: tables.length, untranslatedChecks, changed },
+    };
+  },
+});
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { CreateBucketRequest, createBucketRequestSchema, StorageBucketSchema, storageBucketSchema } from '@insforge/shared-schemas';
+import { formatSuccessMessage } from '../response-handler.js';
+import { defineTool, apiKeyInput } from '../tool-registry.js';
+
+export const createBucketTool = defineTool({
+  name: 'create-bucket',
+  group: 'storage',
+  description: 'Create new storage bucket',
+  inputSchema: {
+    ...apiKeyInput,
+    ...createBucketRequestSchema.shape,
+  },
+  outputSchema: {
+    bucketName: z.string(),
+    isPublic: z.boolean(),
+    message: z.string().optional(),
+  },
+  changesResources: true,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+  errorMessage: 'Error creating bucket',
+  async handler({ bucketName, isPublic }, context) {
+    const result = await context.backend.request<{ message?: string }>('/api/storage/buckets', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ bucketName, isPublic } as CreateBucketRequest),
+    });
+    return {
+      text: formatSuccessMessage('Bucket created', result),
+      structuredContent: { bucketName, isPublic, message: result?.message },
+    };
+  },
+});
+
+export const listBucketsTool = defineTool({
+  name: 'list-buckets',
+  group: 'storage',
+  description: 'Lists all storage buckets',
+  inputSchema: {},
+  outputSchema: {
+    buckets: z.array(storageBucketSchema.partial({ createdAt: true }).passthrough()),
+  },
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  errorMessage: 'Error listing buckets',
+  async handler(_args, context) {
+    const result = await context.backend.request<StorageBucketSchema[] | { buckets?: StorageBucketSchema[] }>('/api/storage/buckets');
+    return {
+      text: formatSuccessMessage('Buckets retrieved', result),
+      structuredContent: { buckets: Array.isArray(result) ? result : result.buckets ?? [] },
+    };
+  },
+});
+
+export const deleteBucketTool = defineTool({
+  name: 'delete-bucket',
+  group: 'storage',
+  description: 'Deletes a storage bucket',
+  inputSchema: {
+    ...apiKeyInput,
+    bucketName: z.string().describe('Name of the bucket to delete'),
+  },
+  outputSchema: {
+    bucketName: z.string(),
+    message: z.string().optional(),
+  },
+  changesResources: true,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  errorMessage: 'Error deleting bucket',
+  async handler({ bucketName }, context) {
+    const result = await context.backend.request<{ message?: string }>(`/api/storage/buckets/${bucketName}`, {
+      method: 'DELETE',
+    });
+    return {
+      text: formatSuccessMessage('Bucket deleted', result),
+      structuredContent: { bucketName, message: result?.message },
+    };
+  },
+});
@@ -0,0 +1,82 @@
+import { ToolDefinition } from './tool-registry.js';
+
+/**
+ * Tool allowlist/denylist
+ * Patterns match tool names or group names (database, storage, functions, ...)
+ * and may use * and ? wildcards, e.g. "get-*" or "database"
+ * - include: When set, only matching tools are registered
+ * - exclude: Matching tools are never registered
+ */
+export interface ToolFilter {
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Parse a comma-separated pattern list, e.g. "database,get-*"
+ */
+export function parseToolPatterns(value: string | undefined): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const patterns = value
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern.length > 0);
+
+  return patterns.length > 0 ? patterns : undefined;
+}
+
+/**
+ * Convert a glob pattern with * and ? wildcards into an anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a pattern matches a tool's name or group
+ */
+export function matchesToolPattern(definition: ToolDefinition, pattern: string): boolean {
+  const regExp = globToRegExp(pattern);
+  return regExp.test(definition.name) || regExp.test(definition.group);
+}
+
+/**
+ * Check whether a tool filter allows a tool
+ * @returns null if allowed, otherwise the reason the tool is filtered out
+ */
+export function toolFilterReason(definition: ToolDefinition, filter: ToolFilter): string | null {
+  const { include, exclude } = filter;
+
+  if (include?.length && !include.some((pattern) => matchesToolPattern(definition, pattern))) {
+    return 'not included by tool filter';
+  }
+
+  const excludedBy = exclude?.find((pattern) => matchesToolPattern(definition, pattern));
+  if (excludedBy) {
+    return `excluded by tool filter pattern '${excludedBy}'`;
+  }
+
+  return null;
+}
+
+/**
+ * Find patterns that match no tool or group, usually a typo
+ */
+export function findUnknownToolPatterns(filter: ToolFilter, definitions: ToolDefinition[]): string[] {
+  const patterns = [...(filter.include ?? []), ...(filter.exclude ?? [])];
+  return patterns.filter(
+    (pattern) => !definitions.some((definition) => matchesToolPattern(definition, pattern))
+  );
+}
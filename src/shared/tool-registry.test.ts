@@ -0,0 +1,154 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { z } from 'zod';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutputPager } from './output-pager.js';
+import { UsageTracker } from './usage-tracker.js';
+import {
+  ToolContext,
+  ToolDefinition,
+  ToolRegistry,
+  defineTool,
+  localFilesystemAvailability,
+  paginatedOutput,
+} from './tool-registry.js';
+
+const echoTool = defineTool({
+  name: 'echo',
+  group: 'database',
+  description: 'Echo rows back',
+  inputSchema: { count: z.number() },
+  outputSchema: { rows: z.array(z.object({ id: z.number(), token: z.string() })), ...paginatedOutput },
+  annotations: { readOnlyHint: true },
+  errorMessage: 'Error echoing',
+  async handler({ count }) {
+    const rows = Array.from({ length: count }, (_, id) => ({ id, token: 'ik_d02a35cfd8056c18e9e59b34bf8bf773' }));
+    return { text: `${count} rows`, structuredContent: { rows } };
+  },
+});
+
+const failingTool = defineTool({
+  name: 'fail',
+  group: 'database',
+  description: 'Always fails',
+  inputSchema: {},
+  outputSchema: { ok: z.boolean() },
+  annotations: { readOnlyHint: true },
+  errorMessage: 'Error failing',
+  async handler() {
+    throw new Error('backend said no');
+  },
+});
+
+const createTool = defineTool({
+  name: 'create',
+  group: 'database',
+  description: 'Create something',
+  inputSchema: { ddl: z.boolean() },
+  outputSchema: { ddl: z.boolean() },
+  changesResources: ({ ddl }) => ddl,
+  annotations: { readOnlyHint: false },
+  errorMessage: 'Error creating',
+  async handler({ ddl }) {
+    return { text: 'done', structuredContent: { ddl } };
+  },
+});
+
+const fileTool = defineTool({
+  name: 'write-file',
+  group: 'database',
+  description: 'Write a local file',
+  inputSchema: {},
+  outputSchema: {},
+  annotations: { readOnlyHint: false },
+  checkAvailability: localFilesystemAvailability,
+  errorMessage: 'Error writing',
+  async handler() {
+    return { text: 'written', structuredContent: {} };
+  },
+});
+
+let client: Client;
+let notifications: string[];
+
+/**
+ * Connect a client to a server with the given tools registered
+ */
+async function connect(definitions: ToolDefinition[], contextOverrides: Partial<ToolContext> = {}): Promise<ToolRegistry> {
+  // The real server registers resources, which is what lets it announce their changes
+  const server = new McpServer({ name: 'test', version: '1.0.0' }, { capabilities: { resources: { listChanged: true } } });
+  const context = {
+    backendVersion: '1.6.0',
+    connected: true,
+    readOnly: false,
+    localFilesystem: false,
+    outputPager: new OutputPager(200),
+    ...contextOverrides,
+  } as ToolContext;
+  const registry = new ToolRegistry(server, context, { track: () => {} } as unknown as UsageTracker);
+  registry.registerAll(definitions);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  client = new Client({ name: 'test-client', version: '1.0.0' });
+  client.fallbackNotificationHandler = async (notification) => {
+    notifications.push(notification.method);
+  };
+  await client.connect(clientTransport);
+  return registry;
+}
+
+beforeEach(() => {
+  notifications = [];
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await client?.close();
+  vi.restoreAllMocks();
+});
+
+describe('ToolRegistry', () => {
+  it('returns redacted text and structured content matching the output schema', async () => {
+    await connect([echoTool]);
+    const result = await client.callTool({ name: 'echo', arguments: { count: 1 } });
+
+    expect(result.content).toEqual([{ type: 'text', text: '1 rows' }]);
+    expect(result.structuredContent).toEqual({ rows: [{ id: 0, token: 'ik_[REDACTED]' }] });
+  });
+
+  it('shortens oversized structured content and returns a cursor for the rest', async () => {
+    await connect([echoTool]);
+    const result = await client.callTool({ name: 'echo', arguments: { count: 100 } });
+    const structured = result.structuredContent as { rows: unknown[]; nextCursor?: string };
+
+    expect(structured.rows.length).toBeLessThan(100);
+    expect(structured.nextCursor).toMatch(/^[0-9a-f]+\.0$/);
+    expect((result.content as { text: string }[])[0].text).toContain(`Call fetch-more with cursor "${structured.nextCursor}"`);
+  });
+
+  it('reports handler errors as tool errors', async () => {
+    await connect([failingTool]);
+    const result = await client.callTool({ name: 'fail', arguments: {} });
+    expect(result).toEqual({ content: [{ type: 'text', text: 'Error failing: backend said no' }], isError: true });
+  });
+
+  it('notifies resource changes only when the output says so', async () => {
+    await connect([createTool]);
+    await client.callTool({ name: 'create', arguments: { ddl: false } });
+    await client.callTool({ name: 'create', arguments: { ddl: true } });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(notifications).toEqual(['notifications/resources/list_changed']);
+  });
+
+  it('registers file tools only for local clients', async () => {
+    const remote = await connect([fileTool, echoTool]);
+    expect(remote.toolCount).toBe(1);
+    await client.close();
+
+    const local = await connect([fileTool, echoTool], { localFilesystem: true });
+    expect(local.toolCount).toBe(2);
+  });
+});
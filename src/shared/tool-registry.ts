@@ -0,0 +1,687 @@
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ElicitResultSchema, ServerNotification, ServerRequest, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { z, ZodRawShape, ZodTypeAny } from 'zod';
+import { UsageTracker, categorizeError } from './usage-tracker.js';
+import { BackendCallScope, BackendClient, runInBackendScope } from './backend-client.js';
+import { AuditConfig, AuditSink, redactArguments } from './audit-log.js';
+import { ToolFilter, toolFilterReason } from './tool-filter.js';
+import { ProgressReporter, ReportProgress } from './progress.js';
+import { getSecretRedactor } from './redaction.js';
+import { OutputPager, describePage, estimateTokens, shrinkToFit } from './output-pager.js';
+import { AskConfirmation, ConfirmationTokens } from './confirmation.js';
+
+/**
+ * Tool version requirement specification
+ * - minVersion: Minimum backend version required (inclusive)
+ * - maxVersion: Maximum backend version supported (inclusive, for deprecated tools)
+ * - Tools without a requirement are available for all versions
+ *
+ * Examples:
+ * - { minVersion: '1.1.0' } - Available from v1.1.0 onwards
+ * - { maxVersion: '2.0.0' } - Deprecated after v2.0.0
+ * - { minVersion: '1.1.0', maxVersion: '2.0.0' } - Available only between v1.1.0 and v2.0.0
+ */
+export interface ToolVersionRequirement {
+  minVersion?: string;
+  maxVersion?: string;
+}
+
+/**
+ * State of the connection to the backend, reported by diagnostic tools
+ */
+export interface ConnectionStatus {
+  connected: boolean;
+  attempts: number;
+  lastError?: string;
+  lastCheckedAt?: Date;
+  nextRetryAt?: Date;
+}
+
+/**
+ * A project profile as reported by list-projects
+ */
+export interface ProjectInfo {
+  name: string;
+  apiBaseUrl: string;
+  description?: string;
+  apiKeyConfigured: boolean;
+  active: boolean;
+}
+
+/**
+ * Switches the server between named project profiles (stdio --profile)
+ */
+export interface ProjectSwitcher {
+  list(): ProjectInfo[];
+
+  /**
+   * Re-point the context at another profile after checking its backend is reachable
+   * @throws Error if the profile is unknown or its backend cannot be reached; the current project stays active
+   */
+  switchTo(name: string): Promise<void>;
+}
+
+/**
+ * Runtime context handed to every tool handler
+ */
+export interface ToolContext {
+  apiBaseUrl: string;
+  backendVersion: string;
+
+  /** False while the backend has not answered a health check (degraded mode) */
+  connected: boolean;
+
+  /** When set, only non-mutating tools are registered and run-raw-sql rejects writes */
+  readOnly: boolean;
+
+  /** Set when the client runs on the server host (stdio), so tools may read and write its files */
+  localFilesystem: boolean;
+
+  /** HTTP client for the backend, injects the configured API key */
+  backend: BackendClient;
+
+  /** Audit log of tool invocations, set only when auditing is enabled */
+  auditLog?: AuditSink;
+
+  /** Project profiles, set only when a profiles file is loaded */
+  projects?: ProjectSwitcher;
+
+  /** Caps tool output at the token budget and caches oversized results for fetch-more */
+  outputPager: OutputPager;
+
+  /** Tokens approving dangerous operations, issued when the client cannot ask the user itself */
+  confirmations: ConfirmationTokens;
+
+  /** Fetch a documentation page from the backend with placeholder URLs rewritten */
+  fetchDocumentation(docType: string): Promise<string>;
+
+  /** Fetch SDK documentation for a feature/language pair from the backend */
+  fetchSDKDocumentation(feature: string, language: string): Promise<string>;
+
+  /** Current backend connection diagnostics */
+  getConnectionStatus(): ConnectionStatus;
+
+  /** Re-check the backend immediately, resolves to true once it is reachable */
+  retryConnection(): Promise<boolean>;
+}
+
+/**
+ * Per-call state handed to tool handlers alongside the shared context
+ */
+export interface ToolInvocation {
+  /** Send MCP progress notifications; a no-op unless the client asked for progress */
+  reportProgress: ReportProgress;
+
+  /** Aborted when the client cancels the call; backend requests made by the handler abort on their own */
+  signal: AbortSignal;
+
+  /** Ask the user to approve an operation via MCP elicitation; resolves to null if the client does not support it */
+  confirm: AskConfirmation;
+}
+
+/**
+ * Successful tool output, turned into MCP content by the registry
+ * - text: Human-readable summary shown in the transcript
+ * - structuredContent: Machine-readable result matching the tool's outputSchema
+ */
+export interface ToolOutput<Data extends Record<string, unknown> = Record<string, unknown>> {
+  text: string;
+  structuredContent: Data;
+}
+
+/**
+ * Tool groups, usable in place of tool names in tool filters
+ */
+export const TOOL_GROUPS = ['instructions', 'database', 'storage', 'functions', 'logs', 'deployment', 'audit', 'projects', 'output', 'diagnostics'] as const;
+
+export type ToolGroup = (typeof TOOL_GROUPS)[number];
+
+/**
+ * Declarative tool definition
+ *
+ * Handlers return data on success and throw on failure; the registry takes care of
+ * error shaping, usage tracking, version gating and background context.
+ */
+export interface ToolDefinition<
+  Shape extends ZodRawShape = ZodRawShape,
+  OutputShape extends ZodRawShape = ZodRawShape,
+> {
+  name: string;
+  group: ToolGroup;
+  description: string;
+  inputSchema: Shape;
+  outputSchema: OutputShape;
+  version?: ToolVersionRequirement;
+
+  /** MCP behaviour hints (readOnlyHint, destructiveHint, idempotentHint, openWorldHint) */
+  annotations: ToolAnnotations;
+
+  /** Keep this mutating tool in read-only mode; its handler must reject writes when context.readOnly is set */
+  allowInReadOnlyMode?: boolean;
+
+  /** Diagnostic tools are registered only while the backend is unreachable, replacing the regular tool set */
+  diagnostic?: boolean;
+
+  /** Keep this regular tool registered while the backend is unreachable */
+  availableWhileDegraded?: boolean;
+
+  /** Extra availability check, returns the reason the tool is unavailable or null */
+  checkAvailability?(context: ToolContext): string | null;
+
+  /**
+   * Set for tools that create or remove tables, buckets or functions exposed as resources;
+   * a function decides from the structured output of a call, e.g. only for DDL
+   */
+  changesResources?: boolean | ((output: z.objectOutputType<OutputShape, ZodTypeAny>) => boolean);
+
+  /** Prefix for error messages returned to the client, e.g. "Error creating bucket" */
+  errorMessage: string;
+
+  handler(
+    args: z.objectOutputType<Shape, ZodTypeAny>,
+    context: ToolContext,
+    invocation: ToolInvocation
+  ): Promise<ToolOutput<z.objectOutputType<OutputShape, ZodTypeAny>>>;
+}
+
+/**
+ * Define a tool with its handler arguments and structured output inferred from its schemas
+ */
+export function defineTool<Shape extends ZodRawShape, OutputShape extends ZodRawShape>(
+  definition: ToolDefinition<Shape, OutputShape>
+): ToolDefinition {
+  return definition as unknown as ToolDefinition;
+}
+
+/**
+ * Optional API key argument kept on tool schemas for backward compatibility.
+ * The value is ignored; the key passed to the server is always used.
+ */
+export const apiKeyInput = {
+  apiKey: z
+    .string()
+    .optional()
+    .describe('API key for authentication (optional if provided via --api_key)'),
+};
+
+/**
+ * Opt-in argument for tools whose output is a secret the user may genuinely need.
+ * Without it, API keys, JWTs and secret env values in tool output are masked.
+ */
+export const revealSecretsInput = {
+  revealSecrets: z
+    .boolean()
+    .optional()
+    .describe('Return secrets (API keys, tokens) unmasked. Only set this when the user explicitly asks for the raw value.'),
+};
+
+/**
+ * Continuation cursor added to the structured output of tools that can return large results.
+ * The registry sets it when the output exceeded the token budget and was truncated.
+ */
+export const paginatedOutput = {
+  nextCursor: z
+    .string()
+    .optional()
+    .describe('Set when the result was truncated; pass it to fetch-more to read the rest'),
+};
+
+/**
+ * Availability check for tools that read or write files on the server host
+ * Remote (HTTP) clients must not reach the files of the host serving them
+ */
+export const localFilesystemAvailability = (context: ToolContext) =>
+  context.localFilesystem ? null : 'only available to local (stdio) clients';
+
+/**
+ * Compare semantic versions (e.g., "1.1.0" vs "1.0.0")
+ * Returns: -1 if v1 < v2, 0 if v1 === v2, 1 if v1 > v2
+ */
+export function compareVersions(v1: string, v2: string): number {
+  // Strip 'v' prefix if present and remove pre-release metadata (e.g., "-dev.31")
+  const clean1 = v1.replace(/^v/, '').split('-')[0];
+  const clean2 = v2.replace(/^v/, '').split('-')[0];
+
+  const parts1 = clean1.split('.').map(Number);
+  const parts2 = clean2.split('.').map(Number);
+
+  for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
+    const part1 = parts1[i] || 0;
+    const part2 = parts2[i] || 0;
+
+    if (part1 > part2) return 1;
+    if (part1 < part2) return -1;
+  }
+
+  return 0;
+}
+
+/**
+ * Check whether a version requirement is satisfied by the backend version
+ * @returns null if satisfied, otherwise the reason the tool is unavailable
+ */
+export function checkVersionRequirement(
+  requirement: ToolVersionRequirement | undefined,
+  backendVersion: string
+): string | null {
+  // No requirement means tool is available for all versions
+  if (!requirement) {
+    return null;
+  }
+
+  const { minVersion, maxVersion } = requirement;
+
+  // Check minimum version requirement
+  if (minVersion && compareVersions(backendVersion, minVersion) < 0) {
+    return `requires backend >= ${minVersion}`;
+  }
+
+  // Check maximum version requirement (for deprecated tools)
+  if (maxVersion && compareVersions(backendVersion, maxVersion) > 0) {
+    return `deprecated after backend ${maxVersion}`;
+  }
+
+  return null;
+}
+
+type TextContent = { type: 'text'; text: string };
+
+// How long to wait for the user to answer a confirmation prompt
+const CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Optional registry behaviour
+ * - toolFilter: Allowlist/denylist applied alongside version checks
+ * - audit: Record every invocation to an audit sink
+ */
+export interface ToolRegistryOptions {
+  toolFilter?: ToolFilter;
+  audit?: AuditConfig;
+}
+
+/**
+ * ToolRegistry wraps declarative tool definitions and registers them on an MCP server
+ *
+ * The registry keeps every definition it was given so the registered set can be
+ * re-synced when the backend version changes (see updateBackendVersion).
+ */
+export class ToolRegistry {
+  private server: McpServer;
+  private context: ToolContext;
+  private usageTracker: UsageTracker;
+  private toolFilter: ToolFilter;
+  private audit?: AuditConfig;
+  private definitions: ToolDefinition[] = [];
+  private registeredTools = new Map<string, RegisteredTool>();
+  private skipReasons = new Map<string, string>();
+
+  /** Called after a tool handler fails, e.g. to re-check the backend version */
+  onToolError?: (toolName: string) => void;
+
+  constructor(server: McpServer, context: ToolContext, usageTracker: UsageTracker, options: ToolRegistryOptions = {}) {
+    this.server = server;
+    this.context = context;
+    this.usageTracker = usageTracker;
+    this.toolFilter = options.toolFilter ?? {};
+    this.audit = options.audit;
+  }
+
+  /**
+   * Number of tools registered on the server
+   */
+  get toolCount(): number {
+    return this.registeredTools.size;
+  }
+
+  /**
+   * Whether a tool is currently registered on the server
+   */
+  isRegistered(name: string): boolean {
+    return this.registeredTools.has(name);
+  }
+
+  /**
+   * Backend version the registered tool set was selected for
+   */
+  get backendVersion(): string {
+    return this.context.backendVersion;
+  }
+
+  /**
+   * Register a list of tool definitions, skipping those the backend doesn't support
+   */
+  registerAll(definitions: ToolDefinition[]): void {
+    this.definitions.push(...definitions);
+    this.sync();
+  }
+
+  /**
+   * Whether the backend has answered a health check
+   */
+  get connected(): boolean {
+    return this.context.connected;
+  }
+
+  /**
+   * Record the version reported by a successful health check, registering newly supported
+   * tools and removing unsupported ones (or replacing the diagnostic tools after degraded startup)
+   * The MCP server sends notifications/tools/list_changed for each change once connected
+   * @returns true if the registered tool set changed
+   */
+  updateBackendVersion(backendVersion: string): boolean {
+    this.context.backendVersion = backendVersion;
+    this.context.connected = true;
+    return this.sync();
+  }
+
+  /**
+   * Bring the registered tools in line with the current context
+   * @returns true if any tool was registered or removed
+   */
+  private sync(): boolean {
+    let changed = false;
+
+    for (const definition of this.definitions) {
+      const registered = this.registeredTools.get(definition.name);
+
+      // Regular and diagnostic tools are swapped silently when the connection state changes
+      if (!this.matchesConnectionState(definition)) {
+        if (registered) {
+          registered.remove();
+          this.registeredTools.delete(definition.name);
+          changed = true;
+        }
+        continue;
+      }
+
+      const reason = this.unavailableReason(definition);
+
+      if (!reason) {
+        this.skipReasons.delete(definition.name);
+        if (!registered) {
+          this.registeredTools.set(definition.name, this.register(definition));
+          changed = true;
+        }
+        continue;
+      }
+
+      if (registered) {
+        console.error(`Removing tool '${definition.name}': ${reason}`);
+        registered.remove();
+        this.registeredTools.delete(definition.name);
+        changed = true;
+      } else if (this.skipReasons.get(definition.name) !== reason) {
+        console.error(`Skipping tool '${definition.name}': ${reason}`);
+      }
+      this.skipReasons.set(definition.name, reason);
+    }
+
+    return changed;
+  }
+
+  /**
+   * Check whether a tool can be registered in the current context
+   * @returns null if available, otherwise the reason the tool is unavailable
+   */
+  private unavailableReason(definition: ToolDefinition): string | null {
+    // Diagnostic tools are all that is left in degraded mode, so they are never filtered out
+    const filterReason = definition.diagnostic ? null : toolFilterReason(definition, this.toolFilter);
+    if (filterReason) {
+      return filterReason;
+    }
+
+    const { backendVersion } = this.context;
+    const versionReason = checkVersionRequirement(definition.version, backendVersion);
+
+    if (versionReason) {
+      return `${versionReason} (current: ${backendVersion})`;
+    }
+
+    if (this.context.readOnly && !definition.annotations.readOnlyHint && !definition.allowInReadOnlyMode) {
+      return 'not available in read-only mode';
+    }
+
+    return definition.checkAvailability?.(this.context) ?? null;
+  }
+
+  /**
+   * Check whether a tool belongs to the tool set for the current connection state
+   */
+  private matchesConnectionState(definition: ToolDefinition): boolean {
+    if (definition.diagnostic) {
+      return !this.context.connected;
+    }
+    return this.context.connected || Boolean(definition.availableWhileDegraded);
+  }
+
+  /**
+   * Register a single tool definition on the MCP server
+   */
+  private register(definition: ToolDefinition): RegisteredTool {
+    return this.server.registerTool(
+      definition.name,
+      {
+        description: definition.description,
+        inputSchema: definition.inputSchema,
+        outputSchema: definition.outputSchema,
+        annotations: this.annotationsFor(definition),
+      },
+      (args: z.objectOutputType<ZodRawShape, ZodTypeAny>, extra) => this.invoke(definition, args, extra)
+    );
+  }
+
+  /**
+   * Annotations advertised for a tool
+   * Tools kept in read-only mode are advertised as read-only since their handlers reject writes
+   */
+  private annotationsFor(definition: ToolDefinition): ToolAnnotations {
+    if (this.context.readOnly && definition.allowInReadOnlyMode) {
+      return { ...definition.annotations, readOnlyHint: true, destructiveHint: false };
+    }
+    return definition.annotations;
+  }
+
+  /**
+   * Run a tool handler and shape its output or error into an MCP result
+   */
+  private async invoke(
+    definition: ToolDefinition,
+    args: z.objectOutputType<ZodRawShape, ZodTypeAny>,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ) {
+    const startedAt = Date.now();
+    const scope: BackendCallScope = { signal: extra.signal };
+    const progress = new ProgressReporter(extra);
+    const invocation: ToolInvocation = {
+      reportProgress: progress.report,
+      signal: extra.signal,
+      confirm: (message) => this.askConfirmation(message, extra),
+    };
+
+    try {
+      const output = this.limitOutput(
+        definition,
+        this.redactOutput(
+          await runInBackendScope(scope, () => definition.handler(args, this.context, invocation)),
+          args
+        )
+      );
+      progress.finish();
+      if (definition.diagnostic) {
+        return {
+          content: [{ type: 'text' as const, text: output.text }],
+          structuredContent: output.structuredContent,
+        };
+      }
+
+      this.usageTracker.track(definition.name, true, Date.now() - startedAt);
+      await this.recordAudit(definition, args, startedAt, scope);
+
+      const changesResources = typeof definition.changesResources === 'function'
+        ? definition.changesResources(output.structuredContent)
+        : definition.changesResources;
+      if (changesResources && !this.context.readOnly) {
+        this.server.sendResourceListChanged();
+      }
+
+      return {
+        content: await this.withBackgroundContext([{ type: 'text', text: output.text }]),
+        structuredContent: output.structuredContent,
+      };
+    } catch (error) {
+      progress.finish();
+      const errMsg = getSecretRedactor().redact(error instanceof Error ? error.message : 'Unknown error occurred');
+
+      if (!definition.diagnostic) {
+        this.usageTracker.track(
+          definition.name,
+          false,
+          Date.now() - startedAt,
+          categorizeError(error, scope.statusCode)
+        );
+        await this.recordAudit(definition, args, startedAt, scope, errMsg);
+        this.onToolError?.(definition.name);
+      }
+
+      return {
+        content: [{ type: 'text' as const, text: `${definition.errorMessage}: ${errMsg}` }],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Ask the user a yes/no question through the client, tied to the current tool call
+   * @returns null if the client does not support elicitation
+   */
+  private async askConfirmation(
+    message: string,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): Promise<boolean | null> {
+    if (!this.server.server.getClientCapabilities()?.elicitation) {
+      return null;
+    }
+
+    const result = await extra.sendRequest(
+      {
+        method: 'elicitation/create',
+        params: {
+          message,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              confirm: { type: 'boolean', title: 'Run it', description: 'Approve this operation' },
+            },
+            required: ['confirm'],
+          },
+        },
+      },
+      ElicitResultSchema,
+      // Leave the user time to read the statement
+      { signal: extra.signal, timeout: CONFIRMATION_TIMEOUT_MS }
+    );
+
+    return result.action === 'accept' && result.content?.confirm === true;
+  }
+
+  /**
+   * Mask secrets in a handler's output unless the call opted in with revealSecrets
+   */
+  private redactOutput(output: ToolOutput, args: Record<string, unknown>): ToolOutput {
+    if (args.revealSecrets === true) {
+      return output;
+    }
+
+    const redactor = getSecretRedactor();
+    return {
+      text: redactor.redact(output.text),
+      structuredContent: redactor.redactValue(output.structuredContent),
+    };
+  }
+
+  /**
+   * Cap output at the token budget
+   * Oversized text is cut to its first page; when only the structured content is oversized,
+   * its full JSON is cached instead. Either way the rest can be read with fetch-more.
+   */
+  private limitOutput(definition: ToolDefinition, output: ToolOutput): ToolOutput {
+    const pager = this.context.outputPager;
+    const structuredJson = JSON.stringify(output.structuredContent);
+    if (pager.fits(output.text) && pager.fits(structuredJson)) {
+      return output;
+    }
+
+    let text: string;
+    let nextCursor: string | undefined;
+    if (!pager.fits(output.text)) {
+      const page = pager.read(pager.store(definition.name, output.text));
+      text = `${page.text}\n\n${describePage(page)}`;
+      nextCursor = page.nextCursor;
+    } else {
+      const fullJson = JSON.stringify(output.structuredContent, null, 2);
+      nextCursor = pager.store(definition.name, fullJson);
+      text = `${output.text}\n\n[The full result is ${fullJson.length} characters (~${estimateTokens(fullJson)} tokens), more than fits in one response. Call fetch-more with cursor "${nextCursor}" to read it page by page.]`;
+    }
+
+    const { value: structuredContent, truncated } = shrinkToFit(output.structuredContent, pager.maxChars);
+    if (truncated) {
+      text += '\n[Structured content was shortened to fit; arrays and long strings keep only their first part.]';
+    }
+    if ('nextCursor' in definition.outputSchema) {
+      structuredContent.nextCursor = nextCursor;
+    }
+
+    return { text, structuredContent };
+  }
+
+  /**
+   * Append an invocation to the audit log, if enabled
+   */
+  private async recordAudit(
+    definition: ToolDefinition,
+    args: Record<string, unknown>,
+    startedAt: number,
+    scope: BackendCallScope,
+    error?: string
+  ): Promise<void> {
+    if (!this.audit) {
+      return;
+    }
+
+    await this.audit.sink.record({
+      timestamp: new Date(startedAt).toISOString(),
+      tool: definition.name,
+      arguments: redactArguments(args),
+      durationMs: Date.now() - startedAt,
+      success: error === undefined,
+      statusCode: scope.statusCode,
+      error,
+      project: this.audit.project,
+    });
+  }
+
+  /**
+   * Append the Insforge development rules to a response
+   * Only enabled for backend versions < 1.1.7 (legacy support)
+   */
+  private async withBackgroundContext(content: TextContent[]): Promise<TextContent[]> {
+    if (compareVersions(this.context.backendVersion, '1.1.7') >= 0) {
+      return content;
+    }
+
+    try {
+      const context = await this.context.fetchDocumentation('instructions');
+      return [
+        ...content,
+        {
+          type: 'text',
+          text: `\n\n---\n🔧 INSFORGE DEVELOPMENT RULES (Auto-loaded):\n${context}`,
+        },
+      ];
+    } catch (error) {
+      console.error('Failed to fetch insforge-instructions.md:', error);
+      return content;
+    }
+  }
+}
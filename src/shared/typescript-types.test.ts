@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnTypeCatalog, MetadataTable } from './table-metadata.js';
+import { TYPES_MODULE_HEADER, generateTypesModule, pascalCase, propertyKey, stringLiteral } from './typescript-types.js';
+
+const TABLES: MetadataTable[] = [
+  {
+    tableName: 'users',
+    columns: [
+      { columnName: 'id', type: 'uuid', isNullable: false, defaultValue: 'gen_random_uuid()' },
+      { columnName: 'age', type: 'integer', isNullable: true },
+    ],
+  },
+  {
+    tableName: 'posts',
+    columns: [
+      { columnName: 'id', type: 'uuid', isNullable: false, isPrimaryKey: true, defaultValue: 'gen_random_uuid()' },
+      { columnName: 'title', type: 'character varying', isNullable: false },
+      { columnName: 'status', type: 'USER-DEFINED', isNullable: false, defaultValue: "'draft'::post_status" },
+      { columnName: 'tags', type: 'ARRAY', isNullable: true },
+      { columnName: 'author-id', type: 'uuid', isNullable: true, foreignKey: { referenceTable: 'users', referenceColumn: 'id' } },
+    ],
+  },
+];
+
+function catalog(): ColumnTypeCatalog {
+  return {
+    enums: new Map([['post_status', ['draft', 'published']]]),
+    udtNames: new Map([['posts.status', 'post_status'], ['posts.tags', '_text']]),
+    maxLengths: new Map([['posts.title', 200]]),
+  };
+}
+
+const EXPECTED = `${TYPES_MODULE_HEADER}
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type PostStatus = 'draft' | 'published';
+
+export interface Database {
+  tables: {
+    posts: {
+      Row: {
+        id: string;
+        title: string;
+        status: PostStatus;
+        tags: string[] | null;
+        'author-id': string | null;
+      };
+      Insert: {
+        id?: string;
+        title: string;
+        status?: PostStatus;
+        tags?: string[] | null;
+        'author-id'?: string | null;
+      };
+      Update: {
+        id?: string;
+        title?: string;
+        status?: PostStatus;
+        tags?: string[] | null;
+        'author-id'?: string | null;
+      };
+      Relationships: [
+        { column: 'author-id'; referencedTable: 'users'; referencedColumn: 'id' },
+      ];
+    };
+    users: {
+      Row: {
+        id: string;
+        age: number | null;
+      };
+      Insert: {
+        id?: string;
+        age?: number | null;
+      };
+      Update: {
+        id?: string;
+        age?: number | null;
+      };
+      Relationships: [];
+    };
+  };
+  enums: {
+    post_status: PostStatus;
+  };
+}
+
+export type TableName = keyof Database['tables'];
+export type Row<T extends TableName> = Database['tables'][T]['Row'];
+export type Insert<T extends TableName> = Database['tables'][T]['Insert'];
+export type Update<T extends TableName> = Database['tables'][T]['Update'];
+
+export type PostsRow = Row<'posts'>;
+export type PostsInsert = Insert<'posts'>;
+export type PostsUpdate = Update<'posts'>;
+export type UsersRow = Row<'users'>;
+export type UsersInsert = Insert<'users'>;
+export type UsersUpdate = Update<'users'>;
+`;
+
+describe('generateTypesModule', () => {
+  it('generates Row, Insert and Update types, enums and relationships', () => {
+    expect(generateTypesModule(TABLES, catalog())).toBe(EXPECTED);
+  });
+
+  it('gives the same output whatever order the backend lists tables and enums in', () => {
+    const reordered = catalog();
+    reordered.enums = new Map([['another', ['x']], ...reordered.enums]);
+    const withAnother = generateTypesModule(TABLES, reordered);
+
+    const sorted = catalog();
+    sorted.enums.set('another', ['x']);
+    expect(generateTypesModule([...TABLES].reverse(), sorted)).toBe(withAnother);
+    expect(withAnother.indexOf("export type Another = 'x';")).toBeLessThan(withAnother.indexOf('export type PostStatus'));
+  });
+});
+
+describe('naming helpers', () => {
+  it('builds type names, keys and literals', () => {
+    expect(pascalCase('user_profiles')).toBe('UserProfiles');
+    expect(pascalCase('2fa-codes')).toBe('_2faCodes');
+    expect(propertyKey('createdAt')).toBe('createdAt');
+    expect(propertyKey('created at')).toBe("'created at'");
+    expect(stringLiteral("it's \\ fine")).toBe("'it\\'s \\\\ fine'");
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  ColumnTypeCatalog,
+  MetadataColumn,
+  MetadataTable,
+  ResolvedColumnType,
+  hasInsertDefault,
+  resolveColumnType,
+} from './table-metadata.js';
+
+// TypeScript types of canonical Postgres types, as the API returns them in JSON
+const TS_TYPES: Record<string, string> = {
+  smallint: 'number',
+  integer: 'number',
+  bigint: 'number',
+  real: 'number',
+  'double precision': 'number',
+  numeric: 'number',
+  oid: 'number',
+  boolean: 'boolean',
+  json: 'Json',
+  jsonb: 'Json',
+  text: 'string',
+  'character varying': 'string',
+  character: 'string',
+  citext: 'string',
+  name: 'string',
+  uuid: 'string',
+  date: 'string',
+  'time without time zone': 'string',
+  'time with time zone': 'string',
+  'timestamp without time zone': 'string',
+  'timestamp with time zone': 'string',
+  interval: 'string',
+  bytea: 'string',
+  inet: 'string',
+  cidr: 'string',
+  macaddr: 'string',
+  money: 'string',
+  tsvector: 'string',
+  xml: 'string',
+};
+
+/**
+ * First lines of every generated types module; files without them are not overwritten
+ */
+export const TYPES_MODULE_HEADER = `// Generated by the generate-types tool from the Insforge backend schema. Do not edit by hand;
+// regenerate after schema changes instead.`;
+
+const JSON_TYPE = 'export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];';
+
+/**
+ * PascalCase name for a table or enum, e.g. "user_profiles" -> "UserProfiles"
+ */
+export function pascalCase(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^[A-Za-z_]/.test(pascal) ? pascal : `_${pascal}`;
+}
+
+/**
+ * Single-quoted TypeScript string literal
+ */
+export function stringLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Object key, quoted unless it is a plain identifier
+ */
+export function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : stringLiteral(name);
+}
+
+/**
+ * Order by code point, so the output does not depend on the machine's locale
+ */
+export function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function tsType(type: ResolvedColumnType): string {
+  const element = type.enumValues ? pascalCase(type.base) : TS_TYPES[type.base] ?? 'unknown';
+  return type.array ? `${element}[]` : element;
+}
+
+function columnLines(table: string, columns: MetadataColumn[], catalog: ColumnTypeCatalog, optional: (column: MetadataColumn) => boolean): string[] {
+  return columns.map((column) => {
+    const type = tsType(resolveColumnType(table, column, catalog));
+    const nullable = column.isNullable ? ' | null' : '';
+    return `        ${propertyKey(column.columnName)}${optional(column) ? '?' : ''}: ${type}${nullable};`;
+  });
+}
+
+function tableLines(table: MetadataTable, catalog: ColumnTypeCatalog): string[] {
+  const relationships = table.columns
+    .filter((column) => column.foreignKey)
+    .map((column) =>
+      `        { column: ${stringLiteral(column.columnName)}; referencedTable: ${stringLiteral(column.foreignKey!.referenceTable)}; referencedColumn: ${stringLiteral(column.foreignKey!.referenceColumn)} },`
+    );
+
+  return [
+    `    ${propertyKey(table.tableName)}: {`,
+    '      Row: {',
+    ...columnLines(table.tableName, table.columns, catalog, () => false),
+    '      };',
+    '      Insert: {',
+    ...columnLines(table.tableName, table.columns, catalog, (column) => column.isNullable || hasInsertDefault(column)),
+    '      };',
+    '      Update: {',
+    ...columnLines(table.tableName, table.columns, catalog, () => true),
+    '      };',
+    relationships.length > 0 ? '      Relationships: [' : '      Relationships: [];',
+    ...(relationships.length > 0 ? [...relationships, '      ];'] : []),
+    '    };',
+  ];
+}
+
+/**
+ * TypeScript module describing the tables: a Database interface with Row, Insert and Update
+ * types and foreign key relationships per table, enum unions, and per-table aliases
+ *
+ * The output only depends on the schema (tables, enums and aliases are sorted by name,
+ * columns keep their table order), so regenerating an unchanged schema gives the same file.
+ */
+export function generateTypesModule(tables: MetadataTable[], catalog: ColumnTypeCatalog): string {
+  const sortedTables = [...tables].sort((a, b) => compareNames(a.tableName, b.tableName));
+  const enums = [...catalog.enums].sort(([a], [b]) => compareNames(a, b));
+
+  const lines = [TYPES_MODULE_HEADER, '', JSON_TYPE, ''];
+  for (const [name, values] of enums) {
+    lines.push(`export type ${pascalCase(name)} = ${values.length > 0 ? values.map(stringLiteral).join(' | ') : 'never'};`, '');
+  }
+
+  lines.push('export interface Database {', '  tables: {');
+  sortedTables.forEach((table) => lines.push(...tableLines(table, catalog)));
+  lines.push('  };', '  enums: {');
+  enums.forEach(([name]) => lines.push(`    ${propertyKey(name)}: ${pascalCase(name)};`));
+  lines.push('  };', '}', '');
+
+  lines.push(
+    "export type TableName = keyof Database['tables'];",
+    "export type Row<T extends TableName> = Database['tables'][T]['Row'];",
+    "export type Insert<T extends TableName> = Database['tables'][T]['Insert'];",
+    "export type Update<T extends TableName> = Database['tables'][T]['Update'];",
+    ''
+  );
+  for (const table of sortedTables) {
+    const name = pascalCase(table.tableName);
+    const key = stringLiteral(table.tableName);
+    lines.push(
+      `export type ${name}Row = Row<${key}>;`,
+      `export type ${name}Insert = Insert<${key}>;`,
+      `export type ${name}Update = Update<${key}>;`
+    );
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
@@ -1,37 +1,291 @@
-import fetch from 'node-fetch';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FetchError, Response } from 'node-fetch';
+import { BackendClient, BackendTimeoutError, RequestCancelledError } from './backend-client.js';
 
+// Usage reporting should never hold up shutdown or the flush loop for long
+const USAGE_TIMEOUT_MS = 5 * 1000;
+
+// Default interval between batch flushes (30 seconds)
+const DEFAULT_FLUSH_INTERVAL_MS = 30 * 1000;
+
+// Events sent per batch request; a full buffer triggers an early flush
+const MAX_BATCH_SIZE = 50;
+
+// Oldest events are dropped beyond this while the backend is unreachable
+const MAX_BUFFERED_EVENTS = 1000;
+
+/**
+ * Coarse failure reason reported with unsuccessful tool calls
+ * - cancelled: The client cancelled the call
+ * - timeout: A backend request exceeded its timeout
+ * - network: The backend could not be reached
+ * - auth: The backend rejected the API key (401/403)
+ * - client: Any other 4xx response
+ * - server: 5xx response
+ * - tool: The tool failed before or without a backend error (validation, read-only guard, ...)
+ */
+export type ErrorCategory = 'cancelled' | 'timeout' | 'network' | 'auth' | 'client' | 'server' | 'tool';
+
+/**
+ * A single tool call reported to the usage endpoint
+ */
+export interface UsageEvent {
+  tool_name: string;
+  success: boolean;
+  timestamp: string;
+  duration_ms: number;
+  error_category?: ErrorCategory;
+}
+
+/**
+ * Options for UsageTracker
+ * - flushIntervalMs: How often buffered events are sent (0 disables the timer)
+ * - queueFile: Where undelivered events are persisted between runs (disabled when unset)
+ */
+export interface UsageTrackerOptions {
+  flushIntervalMs?: number;
+  queueFile?: string;
+}
+
+/**
+ * Classify a tool error for usage reporting
+ * @param statusCode - Status of the last backend response during the call, if any
+ */
+export function categorizeError(error: unknown, statusCode?: number): ErrorCategory {
+  if (error instanceof RequestCancelledError) {
+    return 'cancelled';
+  }
+  if (error instanceof BackendTimeoutError) {
+    return 'timeout';
+  }
+  if (statusCode === 401 || statusCode === 403) {
+    return 'auth';
+  }
+  if (statusCode !== undefined && statusCode >= 500) {
+    return 'server';
+  }
+  if (statusCode !== undefined && statusCode >= 400) {
+    return 'client';
+  }
+  // System errors are connection failures (ECONNREFUSED, ENOTFOUND, ...)
+  if (error instanceof FetchError && error.type === 'system') {
+    return 'network';
+  }
+  return 'tool';
+}
+
+/**
+ * UsageTracker buffers tool usage events and reports them in batches
+ *
+ * Events are flushed on an interval, when the buffer fills up and on shutdown.
+ * Events that cannot be delivered stay buffered for the next flush and, when a
+ * queue file is configured, are persisted so they survive a restart.
+ */
 export class UsageTracker {
-  private apiBaseUrl: string;
-  private apiKey: string;
+  private backend: BackendClient;
+  private flushIntervalMs: number;
+  private queueFile?: string;
+  private buffer: UsageEvent[] = [];
+  private timer?: NodeJS.Timeout;
+  private flushing?: Promise<void>;
+  private queueLoaded: Promise<void>;
+  private queuePersisted = false;
+  private batchSupported = true;
 
-  constructor(apiBaseUrl: string, apiKey: string) {
-    this.apiBaseUrl = apiBaseUrl;
-    this.apiKey = apiKey;
+  constructor(backend: BackendClient, options: UsageTrackerOptions = {}) {
+    this.backend = backend;
+    this.flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    this.queueFile = options.queueFile;
+    this.queueLoaded = this.loadQueue();
   }
 
-  async trackUsage(toolName: string, success: boolean = true): Promise<void> {
-    if (!this.apiKey) {
+  /**
+   * Start flushing on an interval
+   */
+  start(): void {
+    if (this.timer || this.flushIntervalMs <= 0) {
       return;
     }
 
-    try {
-      const payload = {
-        tool_name: toolName,
-        success,
-        timestamp: new Date().toISOString(),
-      };
-
-      await fetch(`${this.apiBaseUrl}/api/usage/mcp`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': this.apiKey,
-        },
-        body: JSON.stringify(payload),
+    this.timer = setInterval(() => void this.flush(), this.flushIntervalMs);
+    // Don't keep the process alive just to report usage
+    this.timer.unref();
+  }
+
+  /**
+   * Buffer a tool call; returns immediately
+   */
+  track(toolName: string, success: boolean, durationMs: number, errorCategory?: ErrorCategory): void {
+    if (!this.backend.hasApiKey) {
+      return;
+    }
+
+    this.enqueue([{
+      tool_name: toolName,
+      success,
+      timestamp: new Date().toISOString(),
+      duration_ms: durationMs,
+      error_category: errorCategory,
+    }]);
+
+    if (this.buffer.length >= MAX_BATCH_SIZE) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send all buffered events; concurrent calls share the same flush
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.runFlush().finally(() => {
+        this.flushing = undefined;
       });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Move to another backend's queue file, e.g. after switch-project
+   * Call after re-pointing the backend; events still undelivered to the previous backend stay
+   * in its queue file instead of being sent to the new one
+   */
+  async switchQueueFile(queueFile: string | undefined): Promise<void> {
+    await this.flushing;
+    await this.queueLoaded;
+    await this.persistQueue();
+
+    this.buffer = [];
+    this.queueFile = queueFile;
+    this.queuePersisted = false;
+    this.queueLoaded = this.loadQueue();
+    await this.queueLoaded;
+  }
+
+  /**
+   * Stop the flush timer, send what is left and persist anything undelivered
+   */
+  async shutdown(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.flush();
+  }
+
+  private async runFlush(): Promise<void> {
+    await this.queueLoaded;
+
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.splice(0, MAX_BATCH_SIZE);
+      const delivered = await this.send(batch);
+      if (delivered < batch.length) {
+        // Keep undelivered events for the next flush
+        this.enqueue(batch.slice(delivered), true);
+        break;
+      }
+    }
+
+    await this.persistQueue();
+  }
+
+  /**
+   * Deliver a batch, falling back to one request per event on backends without the batch endpoint
+   * @returns Number of events delivered (or rejected by the backend) before the first failure
+   */
+  private async send(events: UsageEvent[]): Promise<number> {
+    let delivered = 0;
+    try {
+      if (this.batchSupported) {
+        const response = await this.post('/api/usage/mcp/batch', { events });
+        if (response.status !== 404) {
+          this.checkDelivered(response);
+          return events.length;
+        }
+        this.batchSupported = false;
+      }
+
+      for (const event of events) {
+        this.checkDelivered(await this.post('/api/usage/mcp', event));
+        delivered++;
+      }
+    } catch (error) {
+      console.error('Failed to report usage, will retry:', error instanceof Error ? error.message : error);
+    }
+    return delivered;
+  }
+
+  private post(apiPath: string, body: unknown): Promise<Response> {
+    return this.backend.fetch(apiPath, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      timeoutMs: USAGE_TIMEOUT_MS,
+    });
+  }
+
+  /**
+   * Throw on server errors so the events are retried; client errors are dropped
+   */
+  private checkDelivered(response: Response): void {
+    if (response.status >= 500) {
+      throw new Error(`Usage endpoint responded with ${response.status}`);
+    }
+    if (!response.ok) {
+      console.error(`Usage events rejected with status ${response.status}, dropping`);
+    }
+  }
+
+  /**
+   * Add events to the buffer, dropping the oldest when it is full
+   * @param front - Re-queue undelivered events ahead of newer ones
+   */
+  private enqueue(events: UsageEvent[], front = false): void {
+    this.buffer = front ? [...events, ...this.buffer] : [...this.buffer, ...events];
+    if (this.buffer.length > MAX_BUFFERED_EVENTS) {
+      this.buffer = this.buffer.slice(this.buffer.length - MAX_BUFFERED_EVENTS);
+    }
+  }
+
+  /**
+   * Pick up events persisted by a previous run
+   */
+  private async loadQueue(): Promise<void> {
+    if (!this.queueFile) {
+      return;
+    }
+
+    try {
+      const events = JSON.parse(await fs.readFile(this.queueFile, 'utf-8')) as UsageEvent[];
+      this.enqueue(events, true);
+      this.queuePersisted = true;
+    } catch {
+      // No queue from a previous run
+    }
+  }
+
+  /**
+   * Write undelivered events to the queue file, or remove it once everything is delivered
+   */
+  private async persistQueue(): Promise<void> {
+    if (!this.queueFile) {
+      return;
+    }
+
+    try {
+      if (this.buffer.length > 0) {
+        await fs.mkdir(path.dirname(this.queueFile), { recursive: true });
+        await fs.writeFile(this.queueFile, JSON.stringify(this.buffer), { mode: 0o600 });
+        this.queuePersisted = true;
+      } else if (this.queuePersisted) {
+        await fs.rm(this.queueFile, { force: true });
+        this.queuePersisted = false;
+      }
     } catch (error) {
-      // Silently fail to not interrupt the main flow
-      console.error('Failed to track usage:', error);
+      console.error('Failed to persist usage queue:', error instanceof Error ? error.message : error);
     }
   }
 }
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnTypeCatalog, MetadataTable } from './table-metadata.js';
+import { CheckConstraint, ZOD_MODULE_HEADER, generateZodModule } from './zod-schemas.js';
+
+const TABLES: MetadataTable[] = [
+  {
+    tableName: 'users',
+    columns: [
+      { columnName: 'id', type: 'uuid', isNullable: false, defaultValue: 'gen_random_uuid()' },
+      { columnName: 'age', type: 'integer', isNullable: true },
+    ],
+  },
+  {
+    tableName: 'posts',
+    columns: [
+      { columnName: 'id', type: 'uuid', isNullable: false, isPrimaryKey: true, defaultValue: 'gen_random_uuid()' },
+      { columnName: 'title', type: 'character varying', isNullable: false },
+      { columnName: 'status', type: 'USER-DEFINED', isNullable: false, defaultValue: "'draft'::post_status" },
+      { columnName: 'tags', type: 'ARRAY', isNullable: true },
+      { columnName: 'author-id', type: 'uuid', isNullable: true, foreignKey: { referenceTable: 'users', referenceColumn: 'id' } },
+    ],
+  },
+];
+
+const CATALOG: ColumnTypeCatalog = {
+  enums: new Map([['post_status', ['draft', 'published']]]),
+  udtNames: new Map([['posts.status', 'post_status'], ['posts.tags', '_text']]),
+  maxLengths: new Map([['posts.title', 200]]),
+};
+
+const CHECKS: CheckConstraint[] = [
+  { table: 'users', columns: ['age'], definition: 'CHECK (((age >= 0) AND (age <= 150)))' },
+  { table: 'posts', columns: ['title'], definition: 'CHECK ((length((title)::text) > 0))' },
+  { table: 'posts', columns: ['title', 'status'], definition: "CHECK (((status <> 'published'::post_status) OR (title IS NOT NULL)))" },
+];
+
+const EXPECTED = `${ZOD_MODULE_HEADER}
+
+import { z } from 'zod';
+
+export const postsInsertSchema = z.object({
+  id: z.string().uuid().optional(),
+  title: z.string().max(200).min(1),
+  status: z.enum(['draft', 'published']).default('draft'),
+  tags: z.array(z.string()).nullable().optional(),
+  'author-id': z.string().uuid().nullable().optional(),
+  // CHECK not translated: CHECK (((status <> 'published'::post_status) OR (title IS NOT NULL)))
+});
+
+export const postsUpdateSchema = postsInsertSchema.partial();
+
+export const usersInsertSchema = z.object({
+  id: z.string().uuid().optional(),
+  age: z.number().int().min(-2147483648).max(2147483647).gte(0).lte(150).nullable().optional(),
+});
+
+export const usersUpdateSchema = usersInsertSchema.partial();
+`;
+
+/**
+ * Schema line generated for a single column with the given CHECK constraint
+ */
+function checkedColumn(type: string, definition: string, defaultValue?: string): string {
+  const module = generateZodModule(
+    [{ tableName: 't', columns: [{ columnName: 'c', type, isNullable: false, defaultValue }] }],
+    { enums: new Map(), udtNames: new Map(), maxLengths: new Map() },
+    [{ table: 't', columns: ['c'], definition }]
+  );
+  return module.split('\n').filter((line) => line.startsWith('  ')).join('\n');
+}
+
+describe('generateZodModule', () => {
+  it('generates insert and update schemas per table', () => {
+    expect(generateZodModule(TABLES, CATALOG, CHECKS)).toBe(EXPECTED);
+  });
+
+  it('gives the same output whatever order the backend lists tables in', () => {
+    expect(generateZodModule([...TABLES].reverse(), CATALOG, [...CHECKS].reverse())).toBe(EXPECTED);
+  });
+
+  it('translates IN lists, regular expressions and length checks', () => {
+    expect(checkedColumn('text', "CHECK ((c = ANY (ARRAY['a'::text, 'it''s'::text])))", "'a'::text")).toBe(
+      "  c: z.enum(['a', 'it\\'s']).default('a'),"
+    );
+    expect(checkedColumn('text', "CHECK ((c ~* '^[a-z]+$'::text))")).toBe("  c: z.string().regex(new RegExp('^[a-z]+$', 'i')),");
+    expect(checkedColumn('text', 'CHECK ((char_length(c) <= 10))')).toBe('  c: z.string().max(10),');
+    expect(checkedColumn('numeric', 'CHECK ((c > (0)::numeric))', '0')).toBe('  c: z.number().gt(0).default(0),');
+  });
+
+  it('keeps checks zod cannot express as comments', () => {
+    expect(checkedColumn('integer', 'CHECK (((c % 2) = 0))')).toBe(
+      '  // CHECK not translated: (c % 2) = 0\n  c: z.number().int().min(-2147483648).max(2147483647),'
+    );
+  });
+
+  it('declares the json schema only when a column needs it', () => {
+    const module = generateZodModule(
+      [{ tableName: 'events', columns: [{ columnName: 'payload', type: 'jsonb', isNullable: false }] }],
+      CATALOG,
+      []
+    );
+    expect(module).toContain('const json: z.ZodType<Json> =');
+    expect(module).toContain('  payload: json,');
+    expect(EXPECTED).not.toContain('const json');
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  ColumnTypeCatalog,
+  MetadataColumn,
+  MetadataTable,
+  ResolvedColumnType,
+  hasInsertDefault,
+  resolveColumnType,
+} from './table-metadata.js';
+import { compareNames, pascalCase, propertyKey, stringLiteral } from './typescript-types.js';
+
+/**
+ * A CHECK constraint on the columns of a table
+ */
+export interface CheckConstraint {
+  table: string;
+  columns: string[];
+  definition: string;
+}
+
+/**
+ * Lists the CHECK constraints of public tables with the columns they cover
+ */
+export const CHECK_CONSTRAINTS_SQL = `SELECT rel.relname AS "table",
+       (SELECT json_agg(a.attname ORDER BY a.attnum) FROM pg_attribute a
+         WHERE a.attrelid = c.conrelid AND a.attnum = ANY (c.conkey)) AS columns,
+       pg_get_constraintdef(c.oid) AS definition
+  FROM pg_constraint c
+  JOIN pg_class rel ON rel.oid = c.conrelid
+  JOIN pg_namespace n ON n.oid = rel.relnamespace
+ WHERE c.contype = 'c' AND n.nspname = 'public'
+ ORDER BY rel.relname, c.conname`;
+
+// Zod schemas of canonical Postgres types
+const ZOD_TYPES: Record<string, string> = {
+  smallint: 'z.number().int().min(-32768).max(32767)',
+  integer: 'z.number().int().min(-2147483648).max(2147483647)',
+  bigint: 'z.number().int()',
+  real: 'z.number()',
+  'double precision': 'z.number()',
+  numeric: 'z.number()',
+  boolean: 'z.boolean()',
+  json: 'json',
+  jsonb: 'json',
+  text: 'z.string()',
+  'character varying': 'z.string()',
+  character: 'z.string()',
+  citext: 'z.string()',
+  uuid: 'z.string().uuid()',
+  date: 'z.string().date()',
+  'timestamp with time zone': 'z.string().datetime({ offset: true })',
+  'timestamp without time zone': 'z.string()',
+  'time without time zone': 'z.string()',
+  'time with time zone': 'z.string()',
+  interval: 'z.string()',
+  bytea: 'z.string()',
+  inet: 'z.string()',
+  cidr: 'z.string()',
+};
+
+const NUMERIC_TYPES = new Set(['smallint', 'integer', 'bigint', 'real', 'double precision', 'numeric']);
+const STRING_TYPES = new Set(['text', 'character varying', 'character', 'citext']);
+
+/**
+ * First lines of every generated zod module; files without them are not overwritten
+ */
+export const ZOD_MODULE_HEADER = `// Generated by the generate-zod-schemas tool from the Insforge backend schema. Do not edit by hand;
+// regenerate after schema changes instead.`;
+
+const JSON_SCHEMA = `const jsonLiteral = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+type Json = z.infer<typeof jsonLiteral> | { [key: string]: Json } | Json[];
+const json: z.ZodType<Json> = z.lazy(() => z.union([jsonLiteral, z.array(json), z.record(json)]));`;
+
+/**
+ * What a CHECK term adds to a column schema
+ * - refinement: Chained onto the schema, e.g. ".min(1)"
+ * - values: The column only takes these values
+ */
+type CheckRule = { refinement: string } | { values: string[] };
+
+/**
+ * Split "a AND b AND c" outside parentheses and quotes
+ */
+function splitConjunction(expression: string): string[] {
+  const terms: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let index = 0; index < expression.length; index++) {
+    const char = expression[index];
+    if (char === "'") {
+      quoted = !quoted;
+    } else if (!quoted && char === '(') {
+      depth++;
+    } else if (!quoted && char === ')') {
+      depth--;
+    } else if (!quoted && depth === 0 && /^\sAND\s/i.test(expression.slice(index, index + 5))) {
+      terms.push(expression.slice(start, index));
+      start = index + 5;
+    }
+  }
+  terms.push(expression.slice(start));
+  return terms.map(unwrap);
+}
+
+/**
+ * Remove parentheses around a whole expression
+ */
+function unwrap(expression: string): string {
+  let text = expression.trim();
+  while (text.startsWith('(') && text.endsWith(')')) {
+    let depth = 0;
+    let wrapsAll = true;
+    for (let index = 0; index < text.length - 1; index++) {
+      depth += text[index] === '(' ? 1 : text[index] === ')' ? -1 : 0;
+      if (depth === 0) {
+        wrapsAll = false;
+        break;
+      }
+    }
+    if (!wrapsAll) {
+      break;
+    }
+    text = text.slice(1, -1).trim();
+  }
+  return text;
+}
+
+function stringValue(literal: string): string {
+  return literal.slice(1, -1).replace(/''/g, "'");
+}
+
+const COMPARISON_METHODS: Record<string, (value: number) => string> = {
+  '>': (value) => `.gt(${value})`,
+  '>=': (value) => `.gte(${value})`,
+  '<': (value) => `.lt(${value})`,
+  '<=': (value) => `.lte(${value})`,
+};
+
+const LENGTH_METHODS: Record<string, (value: number) => string> = {
+  '>': (value) => `.min(${value + 1})`,
+  '>=': (value) => `.min(${value})`,
+  '<': (value) => `.max(${value - 1})`,
+  '<=': (value) => `.max(${value})`,
+  '=': (value) => `.length(${value})`,
+};
+
+/**
+ * Translate one term of a CHECK constraint on a column, e.g. "(price > (0)::numeric)"
+ * @returns null if the term has no zod equivalent
+ */
+function checkRule(term: string, column: string, type: ResolvedColumnType): CheckRule | null {
+  // Casts such as 'a'::text and (0)::numeric do not change the meaning of these checks, and
+  // neither do the parentheses left around single names and numbers
+  const text = term
+    .replace(/::(?:"[^"]+"|[a-z_][a-z0-9_]*(?: varying| precision| with(?:out)? time zone)?)(?:\[\])?/gi, '')
+    .replace(/(?<![\w$])\(("[^"]+"|[A-Za-z_][\w$]*|-?\d+(?:\.\d+)?)\)/g, '$1');
+  const name = `(?:"${column.replace(/"/g, '""')}"|${column.replace(/[^\w]/g, '\\$&')})`;
+  const number = String.raw`(-?\d+(?:\.\d+)?)`;
+  const literal = String.raw`('(?:[^']|'')*')`;
+
+  const comparison = new RegExp(`^${name}\\s*(>=|<=|>|<)\\s*${number}$`).exec(text);
+  if (comparison && NUMERIC_TYPES.has(type.base) && !type.array) {
+    return { refinement: COMPARISON_METHODS[comparison[1]](Number(comparison[2])) };
+  }
+
+  const length = new RegExp(`^(?:char_length|length|character_length)\\(${name}\\)\\s*(>=|<=|>|<|=)\\s*${number}$`, 'i').exec(text);
+  if (length && STRING_TYPES.has(type.base) && !type.array) {
+    return { refinement: LENGTH_METHODS[length[1]](Number(length[2])) };
+  }
+
+  if (new RegExp(`^${name}\\s*<>\\s*''$`).test(text) && STRING_TYPES.has(type.base) && !type.array) {
+    return { refinement: '.min(1)' };
+  }
+
+  const anyOf = new RegExp(`^${name}\\s*=\\s*ANY\\s*\\(+\\s*ARRAY\\[(.*)\\]\\s*\\)+$`, 'i').exec(text);
+  if (anyOf && STRING_TYPES.has(type.base) && !type.array) {
+    const values = anyOf[1].match(new RegExp(literal, 'g'));
+    return values ? { values: values.map(stringValue) } : null;
+  }
+
+  const regex = new RegExp(`^${name}\\s*(~\\*?)\\s*${literal}$`).exec(text);
+  if (regex && STRING_TYPES.has(type.base) && !type.array) {
+    const flags = regex[1] === '~*' ? ", 'i'" : '';
+    return { refinement: `.regex(new RegExp(${stringLiteral(stringValue(regex[2]))}${flags}))` };
+  }
+
+  return null;
+}
+
+/**
+ * Zod default for a literal column default such as 'draft'::post_status, 0 or true
+ * Expressions such as now() or gen_random_uuid() have none; the column is just optional
+ */
+function defaultValue(column: MetadataColumn, type: ResolvedColumnType): string | null {
+  const value = column.defaultValue?.trim().replace(/::[a-z_][a-z0-9_ ]*$/i, '') ?? '';
+  if (type.array) {
+    return null;
+  }
+  if ((type.enumValues || STRING_TYPES.has(type.base)) && /^'(?:[^']|'')*'$/.test(value)) {
+    return stringLiteral(stringValue(value));
+  }
+  if (NUMERIC_TYPES.has(type.base) && /^\(?-?\d+(\.\d+)?\)?$/.test(value)) {
+    return value.replace(/[()]/g, '');
+  }
+  if (type.base === 'boolean' && /^(true|false)$/i.test(value)) {
+    return value.toLowerCase();
+  }
+  return null;
+}
+
+/**
+ * Schema of one column for inserts, with comments for CHECK constraints that were not translated
+ */
+function columnSchema(
+  table: string,
+  column: MetadataColumn,
+  catalog: ColumnTypeCatalog,
+  checks: CheckConstraint[]
+): { line: string; comments: string[]; json: boolean } {
+  const type = resolveColumnType(table, column, catalog);
+  const comments: string[] = [];
+  let values = type.enumValues;
+  let refinements = type.maxLength !== undefined ? `.max(${type.maxLength})` : '';
+
+  for (const check of checks) {
+    const body = unwrap(check.definition.replace(/^CHECK\s*/i, '').replace(/\s+NOT VALID$/i, ''));
+    for (const term of splitConjunction(body)) {
+      const rule = checkRule(term, column.columnName, type);
+      if (!rule) {
+        comments.push(`CHECK not translated: ${term.replace(/\s+/g, ' ')}`);
+      } else if ('values' in rule) {
+        values = rule.values;
+      } else {
+        refinements += rule.refinement;
+      }
+    }
+  }
+
+  let schema = `${ZOD_TYPES[type.base] ?? 'z.unknown()'}${refinements}`;
+  if (values) {
+    schema = values.length > 0 ? `z.enum([${values.map(stringLiteral).join(', ')}])` : 'z.never()';
+  }
+  if (type.array) {
+    schema = `z.array(${schema})`;
+  }
+  if (column.isNullable) {
+    schema += '.nullable()';
+  }
+
+  const fallback = defaultValue(column, type);
+  if (fallback !== null) {
+    schema += `.default(${fallback})`;
+  } else if (column.isNullable || hasInsertDefault(column)) {
+    schema += '.optional()';
+  }
+  return { line: `  ${propertyKey(column.columnName)}: ${schema},`, comments, json: ZOD_TYPES[type.base] === 'json' };
+}
+
+/**
+ * Variable name prefix for a table, e.g. "user_profiles" -> "userProfiles"
+ */
+function camelCase(name: string): string {
+  const pascal = pascalCase(name);
+  return pascal.startsWith('_') ? pascal : pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Module of zod schemas for validating inserts and updates of each table
+ *
+ * Insert schemas require the columns without a default that are NOT NULL; update schemas
+ * are their partial versions. CHECK constraints on a single column become refinements where
+ * zod has an equivalent (comparisons, lengths, IN lists, regular expressions) and comments
+ * otherwise. Tables are sorted by name, so an unchanged schema gives the same file.
+ */
+export function generateZodModule(tables: MetadataTable[], catalog: ColumnTypeCatalog, checks: CheckConstraint[]): string {
+  const sortedTables = [...tables].sort((a, b) => compareNames(a.tableName, b.tableName));
+  const blocks: string[] = [];
+  let usesJson = false;
+
+  for (const table of sortedTables) {
+    const name = camelCase(table.tableName);
+    const lines = [`export const ${name}InsertSchema = z.object({`];
+    const tableWide: string[] = [];
+    for (const check of checks.filter((check) => check.table === table.tableName && check.columns.length > 1)) {
+      tableWide.push(`  // CHECK not translated: ${check.definition.replace(/\s+/g, ' ')}`);
+    }
+
+    for (const column of table.columns) {
+      const columnChecks = checks.filter(
+        (check) => check.table === table.tableName && check.columns.length === 1 && check.columns[0] === column.columnName
+      );
+      const { line, comments, json } = columnSchema(table.tableName, column, catalog, columnChecks);
+      usesJson ||= json;
+      lines.push(...comments.map((comment) => `  // ${comment}`), line);
+    }
+    lines.push(...tableWide, '});', '', `export const ${name}UpdateSchema = ${name}InsertSchema.partial();`);
+    blocks.push(lines.join('\n'));
+  }
+
+  const preamble = [ZOD_MODULE_HEADER, '', "import { z } from 'zod';", ...(usesJson ? ['', JSON_SCHEMA] : [])];
+  return `${[preamble.join('\n'), ...blocks].join('\n\n')}\n`;
+}
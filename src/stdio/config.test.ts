@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigError, loadStdioConfig } from './config.js';
+
+let home: string;
+let projectConfig: string;
+
+async function writeJson(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(data));
+}
+
+beforeEach(async () => {
+  home = await fs.mkdtemp(path.join(os.tmpdir(), 'insforge-config-'));
+  projectConfig = path.join(home, 'repo', '.insforge', 'mcp.json');
+  vi.stubEnv('HOME', home);
+  // Always pass --config so no .insforge/mcp.json above the working directory is picked up
+  await writeJson(projectConfig, {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await fs.rm(home, { recursive: true, force: true });
+});
+
+describe('loadStdioConfig', () => {
+  it('merges user config, project config, environment and flags in that order', async () => {
+    await writeJson(path.join(home, '.insforge', 'mcp.json'), { apiKey: 'ik_user', apiBaseUrl: 'https://user.example.com', readOnly: true });
+    await writeJson(projectConfig, { tools: ['database'], maxOutputTokens: 500 });
+
+    const config = await loadStdioConfig({ config: projectConfig, excludeTools: 'run-raw-sql' }, { INSFORGE_MAX_OUTPUT_TOKENS: '800' });
+
+    expect(config).toMatchObject({
+      apiKey: 'ik_user',
+      apiBaseUrl: 'https://user.example.com',
+      readOnly: true,
+      tools: ['database'],
+      excludeTools: ['run-raw-sql'],
+      maxOutputTokens: 800,
+    });
+    expect(config.sources).toEqual({
+      apiKey: `user config ${path.join(home, '.insforge', 'mcp.json')}`,
+      apiBaseUrl: `user config ${path.join(home, '.insforge', 'mcp.json')}`,
+      readOnly: `user config ${path.join(home, '.insforge', 'mcp.json')}`,
+      tools: `project config ${projectConfig}`,
+      maxOutputTokens: 'env INSFORGE_MAX_OUTPUT_TOKENS',
+      excludeTools: 'flag --exclude-tools',
+    });
+  });
+
+  it('resolves paths relative to the config file that set them', async () => {
+    await writeJson(projectConfig, { auditLog: 'logs/audit.jsonl' });
+    const config = await loadStdioConfig({ config: projectConfig }, {});
+    expect(config.auditLog).toBe(path.join(home, 'repo', '.insforge', 'logs', 'audit.jsonl'));
+  });
+
+  it('names the source of an invalid value', async () => {
+    await expect(loadStdioConfig({ config: projectConfig }, { INSFORGE_READ_ONLY: 'yes' })).rejects.toThrow(
+      "Invalid configuration in env INSFORGE_READ_ONLY: expected true or false, got 'yes'"
+    );
+    await expect(loadStdioConfig({ config: projectConfig, api_base_url: 'not a url' }, {})).rejects.toThrow('Invalid configuration in flag --api_base_url');
+  });
+
+  it('rejects a project config choosing the backend without its own key', async () => {
+    await writeJson(projectConfig, { apiBaseUrl: 'https://attacker.example.com' });
+    await expect(loadStdioConfig({ config: projectConfig }, { API_KEY: 'ik_env' })).rejects.toThrow(ConfigError);
+    await expect(loadStdioConfig({ config: projectConfig }, { API_KEY: 'ik_env' })).rejects.toThrow('sets apiBaseUrl without apiKey');
+
+    await writeJson(projectConfig, { profilesFile: 'profiles.json' });
+    await expect(loadStdioConfig({ config: projectConfig }, { API_KEY: 'ik_env' })).rejects.toThrow('sets profilesFile without apiKey');
+  });
+
+  it('accepts a project config that brings the key for its backend', async () => {
+    await writeJson(projectConfig, { apiBaseUrl: 'https://project.example.com', apiKey: 'ik_project' });
+    const config = await loadStdioConfig({ config: projectConfig }, {});
+    expect(config).toMatchObject({ apiKey: 'ik_project', apiBaseUrl: 'https://project.example.com' });
+  });
+
+  it('gives profiles without a key the key from the other sources for the same backend', async () => {
+    await writeJson(path.join(home, '.insforge', 'profiles.json'), {
+      profiles: {
+        dev: { apiBaseUrl: 'https://dev.example.com' },
+        prod: { apiBaseUrl: 'https://prod.example.com', apiKey: 'ik_prod' },
+      },
+    });
+
+    const config = await loadStdioConfig(
+      { config: projectConfig, profile: 'dev', profilesFile: path.join(home, '.insforge', 'profiles.json') },
+      { API_KEY: 'ik_env', API_BASE_URL: 'https://dev.example.com/' }
+    );
+
+    expect(config).toMatchObject({ apiKey: 'ik_env', apiBaseUrl: 'https://dev.example.com', profile: 'dev' });
+    expect(config.profiles?.dev.apiKey).toBe('ik_env');
+    expect(config.profiles?.prod.apiKey).toBe('ik_prod');
+  });
+
+  it('does not send the key from the other sources to a profile on another backend', async () => {
+    await writeJson(path.join(home, '.insforge', 'profiles.json'), {
+      profiles: {
+        local: { apiBaseUrl: 'http://localhost:7130' },
+        staging: { apiBaseUrl: 'https://staging.example.com' },
+      },
+    });
+    const profilesFile = path.join(home, '.insforge', 'profiles.json');
+
+    const config = await loadStdioConfig({ config: projectConfig, profilesFile }, { API_KEY: 'ik_env' });
+    expect(config.apiKey).toBe('ik_env');
+    expect(config.profiles?.local.apiKey).toBe('ik_env');
+    expect(config.profiles?.staging.apiKey).toBeUndefined();
+
+    const selected = await loadStdioConfig({ config: projectConfig, profilesFile, profile: 'staging' }, { API_KEY: 'ik_env' });
+    expect(selected).toMatchObject({ apiKey: undefined, apiBaseUrl: 'https://staging.example.com' });
+    expect(selected.sources.apiKey).toBeUndefined();
+  });
+
+  it('fails on an unknown profile', async () => {
+    await writeJson(path.join(home, '.insforge', 'profiles.json'), { profiles: { dev: { apiBaseUrl: 'https://dev.example.com' } } });
+    await expect(loadStdioConfig({ config: projectConfig, profile: 'staging', profilesFile: path.join(home, '.insforge', 'profiles.json') }, {})).rejects.toThrow("Profile 'staging' (from flag --profile) not found");
+  });
+});
@@ -0,0 +1,370 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { parseToolPatterns } from '../shared/tool-filter.js';
+import { DEFAULT_PROFILES_PATH, ProjectProfiles, loadProfiles } from '../shared/profiles.js';
+
+/**
+ * Config file name, looked up in .insforge/ of the project and of the home directory
+ */
+const CONFIG_FILE_NAME = 'mcp.json';
+
+const DEFAULT_API_BASE_URL = 'http://localhost:7130';
+
+// Schema shared by config files, environment variables and flags
+const settingsSchema = z.object({
+  apiKey: z.string().min(1).optional(),
+  apiBaseUrl: z.string().url().optional(),
+  profile: z.string().min(1).optional(),
+  profilesFile: z.string().min(1).optional(),
+  readOnly: z.boolean().optional(),
+  tools: z.array(z.string().min(1)).optional(),
+  excludeTools: z.array(z.string().min(1)).optional(),
+  auditLog: z.union([z.boolean(), z.string().min(1)]).optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+}).strict();
+
+type Settings = z.infer<typeof settingsSchema>;
+type SettingName = keyof Settings;
+
+/**
+ * Settings for the stdio server after merging all sources
+ */
+export interface StdioConfig {
+  apiKey?: string;
+  apiBaseUrl: string;
+  profile?: string;
+  profiles?: ProjectProfiles;
+  readOnly: boolean;
+  tools?: string[];
+  excludeTools?: string[];
+  /** Audit log path, or undefined when auditing is off */
+  auditLog?: string;
+  maxOutputTokens?: number;
+
+  /** Where each setting came from, e.g. "env API_KEY" or "project config /repo/.insforge/mcp.json" */
+  sources: Partial<Record<SettingName, string>>;
+}
+
+/**
+ * Command line flags as parsed by commander
+ */
+export interface StdioFlags {
+  config?: string;
+  api_key?: string;
+  api_base_url?: string;
+  profile?: string;
+  profilesFile?: string;
+  readOnly?: boolean;
+  tools?: string;
+  excludeTools?: string;
+  auditLog?: boolean | string;
+  maxOutputTokens?: string;
+}
+
+/**
+ * Error in the stdio configuration, reported without a stack trace
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * A set of settings from one source
+ */
+interface ConfigLayer {
+  source: string;
+  settings: Settings;
+}
+
+// Settings holding file paths, resolved relative to the layer that set them
+const PATH_SETTINGS = ['profilesFile', 'auditLog'] as const;
+
+// Settings choosing where the API key is sent; a project config may only set them along with its own key
+const BACKEND_SETTINGS = ['apiBaseUrl', 'profilesFile'] as const;
+
+/**
+ * Validate one layer, naming the source in any error
+ * @param baseDir - Directory relative paths in this source resolve against
+ */
+function parseLayer(source: string, data: unknown, baseDir: string): ConfigLayer {
+  const result = settingsSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+    throw new ConfigError(`Invalid configuration in ${source}: ${issues}`);
+  }
+
+  const settings = result.data;
+  for (const name of PATH_SETTINGS) {
+    const value = settings[name];
+    if (typeof value === 'string') {
+      settings[name] = path.resolve(baseDir, value.replace(/^~(?=$|[/\\])/, os.homedir()));
+    }
+  }
+
+  return { source, settings };
+}
+
+/**
+ * Read a JSON config file as a layer
+ * @returns null if the file does not exist
+ */
+async function readConfigFile(kind: string, filePath: string): Promise<ConfigLayer | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    const errMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new ConfigError(`Cannot read ${kind} ${filePath}: ${errMsg}`);
+  }
+
+  const source = `${kind} ${filePath}`;
+  try {
+    return parseLayer(source, JSON.parse(content), path.dirname(filePath));
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new ConfigError(`Invalid JSON in ${source}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Make sure a project config does not send the key from another source to a backend it chose
+ * A cloned repository could otherwise point the user's own API key at any URL
+ */
+function checkProjectBackend(layer: ConfigLayer): void {
+  const names = BACKEND_SETTINGS.filter((name) => layer.settings[name] !== undefined);
+  if (names.length > 0 && !layer.settings.apiKey) {
+    throw new ConfigError(
+      `${layer.source} sets ${names.join(' and ')} without apiKey. A project config may only choose the backend ` +
+        'together with the key for it; add apiKey there, or set the backend in ~/.insforge/mcp.json, the environment or a flag'
+    );
+  }
+}
+
+/**
+ * Find .insforge/mcp.json in the working directory or its parents, stopping before the home directory
+ */
+async function findProjectConfig(startDir: string): Promise<string | undefined> {
+  const homeDir = os.homedir();
+  let dir = path.resolve(startDir);
+
+  while (dir !== homeDir) {
+    const candidate = path.join(dir, '.insforge', CONFIG_FILE_NAME);
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Keep looking in the parent directory
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a boolean environment variable ("true"/"1" or "false"/"0")
+ */
+function parseBooleanEnv(name: string, value: string | undefined): boolean | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  throw new ConfigError(`Invalid configuration in env ${name}: expected true or false, got '${value}'`);
+}
+
+/**
+ * Parse an integer environment variable or flag; invalid values are left to the schema to report
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  return Number(value);
+}
+
+/**
+ * Settings from environment variables, one layer per variable so errors name it
+ */
+function envLayers(env: NodeJS.ProcessEnv): ConfigLayer[] {
+  const cwd = process.cwd();
+  const auditLog = env.INSFORGE_AUDIT_LOG;
+  const variables: [string, Settings][] = [
+    ['API_KEY', { apiKey: env.API_KEY || undefined }],
+    ['API_BASE_URL', { apiBaseUrl: env.API_BASE_URL || undefined }],
+    ['INSFORGE_PROFILE', { profile: env.INSFORGE_PROFILE || undefined }],
+    ['INSFORGE_PROFILES_FILE', { profilesFile: env.INSFORGE_PROFILES_FILE || undefined }],
+    ['INSFORGE_READ_ONLY', { readOnly: parseBooleanEnv('INSFORGE_READ_ONLY', env.INSFORGE_READ_ONLY) }],
+    ['INSFORGE_TOOLS', { tools: parseToolPatterns(env.INSFORGE_TOOLS) }],
+    ['INSFORGE_EXCLUDE_TOOLS', { excludeTools: parseToolPatterns(env.INSFORGE_EXCLUDE_TOOLS) }],
+    ['INSFORGE_AUDIT_LOG', { auditLog: auditLog === 'true' || auditLog === '1' ? true : auditLog || undefined }],
+    ['INSFORGE_MAX_OUTPUT_TOKENS', { maxOutputTokens: parseNumber(env.INSFORGE_MAX_OUTPUT_TOKENS) }],
+  ];
+
+  return variables.map(([name, settings]) => parseLayer(`env ${name}`, settings, cwd));
+}
+
+/**
+ * Settings from command line flags, one layer per flag so errors name it
+ */
+function flagLayers(flags: StdioFlags): ConfigLayer[] {
+  const cwd = process.cwd();
+  const options: [string, Settings][] = [
+    ['--api_key', { apiKey: flags.api_key }],
+    ['--api_base_url', { apiBaseUrl: flags.api_base_url }],
+    ['--profile', { profile: flags.profile }],
+    ['--profiles-file', { profilesFile: flags.profilesFile }],
+    ['--read-only', { readOnly: flags.readOnly }],
+    ['--tools', { tools: parseToolPatterns(flags.tools) }],
+    ['--exclude-tools', { excludeTools: parseToolPatterns(flags.excludeTools) }],
+    ['--audit-log', { auditLog: flags.auditLog }],
+    ['--max-output-tokens', { maxOutputTokens: parseNumber(flags.maxOutputTokens) }],
+  ];
+
+  return options.map(([flag, settings]) => parseLayer(`flag ${flag}`, settings, cwd));
+}
+
+/**
+ * Merge layers, later layers win; records the source of every setting
+ */
+function mergeLayers(layers: ConfigLayer[]): { settings: Settings; sources: StdioConfig['sources'] } {
+  const settings: Settings = {};
+  const sources: StdioConfig['sources'] = {};
+
+  for (const layer of layers) {
+    for (const [name, value] of Object.entries(layer.settings) as [SettingName, Settings[SettingName]][]) {
+      if (value !== undefined) {
+        (settings as Record<string, unknown>)[name] = value;
+        sources[name] = layer.source;
+      }
+    }
+  }
+
+  return { settings, sources };
+}
+
+/**
+ * Load project profiles for list-projects/switch-project
+ * A broken or missing file only matters when a profile is selected
+ */
+async function loadProjectProfiles(
+  filePath: string,
+  profile: string | undefined,
+  profileSource: string | undefined
+): Promise<ProjectProfiles | undefined> {
+  let profiles: ProjectProfiles | null;
+  try {
+    profiles = await loadProfiles(filePath);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    if (profile) {
+      throw new ConfigError(errMsg);
+    }
+    console.error(`Ignoring project profiles: ${errMsg}`);
+    return undefined;
+  }
+
+  if (profile && !profiles?.[profile]) {
+    const available = profiles ? Object.keys(profiles).join(', ') : 'none';
+    throw new ConfigError(`Profile '${profile}' (from ${profileSource}) not found in ${filePath} (available: ${available})`);
+  }
+
+  return profiles ?? undefined;
+}
+
+/**
+ * Whether two API base URLs name the same backend, ignoring trailing slashes
+ */
+function sameBackend(first: string, second: string): boolean {
+  const normalize = (url: string) => new URL(url).href.replace(/\/+$/, '');
+  return normalize(first) === normalize(second);
+}
+
+/**
+ * Resolve the stdio server configuration
+ *
+ * Sources, lowest to highest precedence:
+ * 1. User config: ~/.insforge/mcp.json
+ * 2. Project config: .insforge/mcp.json in the working directory or a parent (or --config)
+ * 3. Environment: API_KEY, API_BASE_URL, INSFORGE_* variables
+ * 4. The selected profile's apiKey and apiBaseUrl
+ * 5. Command line flags
+ *
+ * @throws ConfigError naming the offending source when a value is invalid
+ */
+export async function loadStdioConfig(flags: StdioFlags, env: NodeJS.ProcessEnv = process.env): Promise<StdioConfig> {
+  const userConfigPath = path.join(os.homedir(), '.insforge', CONFIG_FILE_NAME);
+  const projectConfigPath = flags.config
+    ? path.resolve(flags.config)
+    : await findProjectConfig(process.cwd());
+
+  const userLayer = await readConfigFile('user config', userConfigPath);
+  const projectLayer = projectConfigPath && projectConfigPath !== userConfigPath
+    ? await readConfigFile('project config', projectConfigPath)
+    : null;
+  if (flags.config && !projectLayer) {
+    throw new ConfigError(`Config file ${projectConfigPath} (from --config) does not exist`);
+  }
+  if (projectLayer) {
+    checkProjectBackend(projectLayer);
+  }
+
+  const baseLayers = [userLayer, projectLayer, ...envLayers(env)].filter((layer): layer is ConfigLayer => layer !== null);
+  const cliLayers = flagLayers(flags);
+
+  // The profile name and file can come from any source, so resolve them first
+  const { settings: selection, sources: selectionSources } = mergeLayers([...baseLayers, ...cliLayers]);
+  const profilesFile = selection.profilesFile ?? DEFAULT_PROFILES_PATH;
+  const loadedProfiles = await loadProjectProfiles(profilesFile, selection.profile, selectionSources.profile);
+
+  // A profile without its own key uses the key from the other sources, at startup and after switch-project,
+  // but only for the backend that key belongs to
+  const selectionBackend = selection.apiBaseUrl ?? DEFAULT_API_BASE_URL;
+  const profiles = loadedProfiles && Object.fromEntries(
+    Object.entries(loadedProfiles).map(([name, profile]) => [
+      name,
+      { ...profile, apiKey: profile.apiKey ?? (sameBackend(profile.apiBaseUrl, selectionBackend) ? selection.apiKey : undefined) },
+    ])
+  );
+
+  // A selected profile's key replaces the key from the other sources, even when it has none
+  const profile = selection.profile ? profiles?.[selection.profile] : undefined;
+  const layers = profile
+    ? [
+      ...baseLayers.map((layer) => ({ ...layer, settings: { ...layer.settings, apiKey: undefined } })),
+      { source: `profile '${selection.profile}' in ${profilesFile}`, settings: { apiKey: profile.apiKey, apiBaseUrl: profile.apiBaseUrl } },
+      ...cliLayers,
+    ]
+    : [...baseLayers, ...cliLayers];
+
+  const { settings, sources } = mergeLayers(layers);
+  const auditLog = settings.auditLog === true
+    ? path.join(os.homedir(), '.insforge', 'mcp-audit.jsonl')
+    : settings.auditLog || undefined;
+
+  return {
+    apiKey: settings.apiKey,
+    apiBaseUrl: settings.apiBaseUrl ?? DEFAULT_API_BASE_URL,
+    profile: settings.profile,
+    profiles,
+    readOnly: settings.readOnly ?? false,
+    tools: settings.tools,
+    excludeTools: settings.excludeTools,
+    auditLog,
+    maxOutputTokens: settings.maxOutputTokens,
+    sources,
+  };
+}
@@ -2,16 +2,49 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { program } from 'commander';
 import { registerInsforgeTools } from '../shared/tools.js';
+import { FileAuditSink } from '../shared/audit-log.js';
+import { getSecretRedactor, installConsoleRedaction } from '../shared/redaction.js';
+import { ConfigError, StdioFlags, loadStdioConfig } from './config.js';
+import os from 'os';
+import crypto from 'crypto';
+import path from 'path';
 
 // Parse command line arguments
+// Every setting can also come from .insforge/mcp.json or environment variables (see ./config.ts)
+program.option('--config <path>', 'Project config file (default: nearest .insforge/mcp.json)');
 program.option('--api_key <value>', 'API Key');
 program.option('--api_base_url <value>', 'API Base URL');
+program.option('--read-only', 'Register only non-mutating tools and reject write SQL');
+program.option('--tools <patterns>', 'Comma-separated tool names or groups to register (e.g. database,get-*)');
+program.option('--exclude-tools <patterns>', 'Comma-separated tool names or groups to hide (e.g. download-template,deployment)');
+program.option('--profile <name>', 'Project profile to start with, from the profiles file');
+program.option('--profiles-file <path>', 'Project profiles file (default: ~/.insforge/profiles.json)');
+program.option('--audit-log [path]', 'Append every tool call to a rotating JSONL audit log (default: ~/.insforge/mcp-audit.jsonl)');
+program.option('--max-output-tokens <count>', 'Token budget per tool result; larger results are paged with fetch-more (default: 10000)');
 program.parse(process.argv);
-const options = program.opts();
-const { api_key, api_base_url } = options;
+const options = program.opts<StdioFlags>();
+
+/**
+ * Where undelivered usage events are kept between runs, one file per backend
+ */
+function usageQueuePath(apiBaseUrl: string): string {
+  const backendHash = crypto.createHash('sha256').update(apiBaseUrl).digest('hex').slice(0, 12);
+  return path.join(os.homedir(), '.insforge', `mcp-usage-queue-${backendHash}.json`);
+}
 
 // Main function to start the stdio server
 async function main() {
+  installConsoleRedaction();
+  const config = await loadStdioConfig(options);
+
+  // Mask the configured keys even where they don't look like Insforge API keys
+  const redactor = getSecretRedactor();
+  for (const apiKey of [config.apiKey, ...Object.values(config.profiles ?? {}).map((profile) => profile.apiKey)]) {
+    if (apiKey) {
+      redactor.addSecret(apiKey);
+    }
+  }
+
   // Create MCP server
   const server = new McpServer({
     name: 'insforge-mcp',
@@ -20,28 +53,74 @@ async function main() {
 
   // Register all Insforge tools with the server (async to support dynamic version-based registration)
   const toolsConfig = await registerInsforgeTools(server, {
-    apiKey: api_key,
-    apiBaseUrl: api_base_url || process.env.API_BASE_URL,
+    apiKey: config.apiKey,
+    apiBaseUrl: config.apiBaseUrl,
+    readOnly: config.readOnly,
+    localFilesystem: true,
+    allowDegradedStartup: true,
+    toolFilter: {
+      include: config.tools,
+      exclude: config.excludeTools,
+    },
+    audit: config.auditLog
+      ? { sink: new FileAuditSink(config.auditLog), project: config.apiBaseUrl }
+      : undefined,
+    usageQueueFile: usageQueuePath,
+    profiles: config.profiles,
+    activeProfile: config.profile,
+    maxOutputTokens: config.maxOutputTokens,
   });
 
   // Connect to transport AFTER tool registration is complete
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
+  // Flush buffered usage events before exiting
+  let shuttingDown = false;
+  const shutdown = async () => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    await toolsConfig.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+  process.stdin.on('end', shutdown);
+
   // Log startup information to stderr (stdout is reserved for MCP protocol)
   console.error('Insforge MCP server started');
 
+  const source = (name: keyof typeof config.sources) => (config.sources[name] ? ` (from ${config.sources[name]})` : '');
+
   if (toolsConfig.apiKey) {
-    console.error(`API Key: Configured`);
+    console.error(`API Key: Configured${source('apiKey')}`);
   } else {
     console.error('API Key: Not configured (will require api_key in tool calls)');
   }
 
-  console.error(`API Base URL: ${toolsConfig.apiBaseUrl}`);
+  if (config.profile) {
+    console.error(`Profile: ${config.profile}${source('profile')}`);
+  }
+  console.error(`API Base URL: ${toolsConfig.apiBaseUrl}${source('apiBaseUrl')}`);
   if (toolsConfig.backendVersion) {
     console.error(`Backend Version: ${toolsConfig.backendVersion}`);
   }
+  if (toolsConfig.degraded) {
+    console.error('Mode: degraded (backend unreachable, retrying in the background)');
+  }
+  if (toolsConfig.readOnly) {
+    console.error(`Mode: read-only${source('readOnly')}`);
+  }
+  if (config.auditLog) {
+    console.error(`Audit log: ${config.auditLog}${source('auditLog')}`);
+  }
   console.error(`Tools registered: ${toolsConfig.toolCount}`);
 }
 
-main().catch(console.error);
\ No newline at end of file
+main().catch((error) => {
+  if (error instanceof ConfigError) {
+    console.error(`Configuration error: ${error.message}`);
+    process.exit(1);
+  }
+  console.error(error);
+});
\ No newline at end of file
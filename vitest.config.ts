@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    server: {
+      deps: {
+        // Published with extensionless ESM imports, which only resolve when bundled (see tsup.config.ts)
+        inline: ['@insforge/shared-schemas'],
+      },
+    },
+  },
+});